@@ -93,9 +93,8 @@ export class Pip {
     } catch (error) {
       if (
         !(
-          error instanceof PythonError &&
-          error.type.isInstance(python.builtins.SystemExit()) &&
-          error.value.asLong() === 0
+          error instanceof PythonError.SystemExit &&
+          [0, null].includes(error.value.getAttr("code").valueOf())
         )
       ) {
         throw error;
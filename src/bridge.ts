@@ -0,0 +1,279 @@
+/**
+ * Source of the Python module that implements the Python side of the bridge,
+ * for the parts that are easier to write in Python than with the C API.
+ *
+ * Names starting with `_js_` are JS callbacks, set on the module when it is
+ * loaded by `src/python.ts`.
+ */
+export const BRIDGE_MODULE = `
+import asyncio
+import functools
+import threading
+
+try:
+    import ctypes
+except ImportError:
+    # Sub-interpreters with their own GIL can't load it, they can't hand calls
+    # over to other threads anyway
+    ctypes = None
+
+# Set by set_dispatcher, see js_function
+_js_dispatch = None
+
+
+class JSIterator:
+    """Iterator pulling values from a JS iterator, one at a time."""
+
+    __slots__ = ("_id",)
+
+    def __init__(self, id):
+        self._id = id
+
+    def __iter__(self):
+        return self
+
+    def __next__(self):
+        done, value = _js_iterator_next(self._id)
+        if done:
+            raise StopIteration(value)
+        return value
+
+    def __del__(self):
+        _js_iterator_close(self._id)
+
+
+class JSAsyncIterator:
+    """Asynchronous iterator pulling values from a JS async iterator."""
+
+    __slots__ = ("_id",)
+
+    def __init__(self, id):
+        self._id = id
+
+    def __aiter__(self):
+        return self
+
+    async def __anext__(self):
+        future = asyncio.get_running_loop().create_future()
+        _js_async_iterator_next(self._id, future)
+        done, value = await future
+        if done:
+            raise StopAsyncIteration
+        return value
+
+    def __del__(self):
+        _js_iterator_close(self._id)
+
+
+class JSPromise:
+    """Awaitable resolving to the value of a JS promise."""
+
+    __slots__ = ("_js_id", "__weakref__")
+
+    def __init__(self, id):
+        self._js_id = id
+
+    def __await__(self):
+        future = asyncio.get_running_loop().create_future()
+        _js_promise_then(self._js_id, future)
+        return future.__await__()
+
+    def __repr__(self):
+        return "<JSPromise>"
+
+    def __del__(self):
+        _js_object("release", self._js_id)
+
+
+class JSObject:
+    """Python proxy to a JS object, forwarding every operation on it to JS."""
+
+    __slots__ = ("_js_id", "__weakref__")
+
+    def __init__(self, id):
+        object.__setattr__(self, "_js_id", id)
+
+    def __getattr__(self, name):
+        found, value = _js_object("get", self._js_id, name)
+        if not found:
+            raise AttributeError(name)
+        return value
+
+    def __setattr__(self, name, value):
+        _js_object("set", self._js_id, name, value)
+
+    def __delattr__(self, name):
+        if not _js_object("delete", self._js_id, name):
+            raise AttributeError(name)
+
+    def __getitem__(self, key):
+        found, value = _js_object("getitem", self._js_id, key)
+        if not found:
+            raise KeyError(key)
+        return value
+
+    def __setitem__(self, key, value):
+        _js_object("setitem", self._js_id, key, value)
+
+    def __delitem__(self, key):
+        if not _js_object("delitem", self._js_id, key):
+            raise KeyError(key)
+
+    def __call__(self, *args, **kwargs):
+        return _js_object("call", self._js_id, args, kwargs)
+
+    def __bool__(self):
+        # JS objects and functions are always truthy, whatever their length
+        return True
+
+    def __len__(self):
+        length = _js_object("len", self._js_id)
+        if length is None:
+            raise TypeError("JS object has no length")
+        return length
+
+    def __contains__(self, key):
+        return _js_object("contains", self._js_id, key)
+
+    def __iter__(self):
+        return _js_object("iter", self._js_id)
+
+    def __dir__(self):
+        return _js_object("dir", self._js_id)
+
+    def __repr__(self):
+        return _js_object("repr", self._js_id)
+
+    def __del__(self):
+        _js_object("release", self._js_id)
+
+
+class JSError(RuntimeError):
+    """Exception raised for an error thrown in JS, which is its error."""
+
+    def __init__(self, message, error):
+        super().__init__(message)
+        self.error = error
+
+
+class JSTypeError(JSError, TypeError):
+    """Exception raised for a JS TypeError."""
+
+
+class JSRangeError(JSError, ValueError):
+    """Exception raised for a JS RangeError."""
+
+
+class JSKeyError(JSError, KeyError):
+    """Exception raised for a PythonKeyError, whose argument is the key."""
+
+
+class AsyncCall:
+    """Call of a Python function made from another thread."""
+
+    __slots__ = ("_call", "_result", "_error")
+
+    def __init__(self, function, *args, **kwargs):
+        self._call = (function, args, kwargs)
+        self._result = None
+        self._error = None
+
+    def run(self):
+        function, args, kwargs = self._call
+        try:
+            self._result = function(*args, **kwargs)
+        except BaseException as error:
+            self._error = error
+
+    def result(self):
+        if self._error is not None:
+            raise self._error
+        return self._result
+
+
+if ctypes is not None:
+    # C callbacks taking a Python object. ctypes takes the GIL before running
+    # Python code in them, and releases it while calling C ones.
+    _CALLBACK = ctypes.CFUNCTYPE(None, ctypes.py_object)
+
+    @_CALLBACK
+    def run_async_call(call):
+        call.run()
+
+    run_async_call_address = ctypes.cast(run_async_call, ctypes.c_void_p).value
+
+
+def set_dispatcher(address):
+    global _js_dispatch
+    _js_dispatch = _CALLBACK(address)
+
+
+def js_function(function):
+    """
+    Wraps a JS callback, so it can be called from any thread. JS code only
+    runs on the thread it belongs to, so calls from other threads are handed
+    over to it, releasing the GIL until it has run them.
+    """
+    owner = threading.get_ident()
+
+    @functools.wraps(function)
+    def call(*args, **kwargs):
+        if threading.get_ident() == owner:
+            return function(*args, **kwargs)
+        if _js_dispatch is None:
+            raise RuntimeError(
+                "JS callbacks can only be called from other threads "
+                "in the main interpreter"
+            )
+        dispatched = AsyncCall(function, *args, **kwargs)
+        _js_dispatch(dispatched)
+        return dispatched.result()
+
+    return call
+
+
+def running_threads():
+    """Returns the threads that Python waits for before exiting."""
+    return [
+        thread
+        for thread in threading.enumerate()
+        if not thread.daemon
+        and thread not in (threading.main_thread(), threading.current_thread())
+    ]
+
+
+def join_threads():
+    """Waits for the threads that Python waits for before exiting."""
+    for thread in running_threads():
+        thread.join()
+
+
+# Seconds between iterations of an event loop waiting for I/O
+POLL_INTERVAL = 0.01
+
+
+def step(loop):
+    """
+    Runs a single iteration of the event loop, returns the number of seconds
+    after which it should run again, or None if nothing is left to run.
+
+    asyncio has no public API telling whether callbacks are ready or timers
+    are scheduled, so the attributes of the default loops are used when they
+    exist. Other loops are assumed busy for as long as they have tasks.
+
+    The loop's selector can't wake up JS, so while tasks wait on I/O the loop
+    is polled every POLL_INTERVAL seconds, until the tasks are done.
+    """
+    loop.call_soon(loop.stop)
+    loop.run_forever()
+    ready = getattr(loop, "_ready", None)
+    scheduled = getattr(loop, "_scheduled", None)
+    if ready:
+        return 0
+    if not scheduled and not asyncio.all_tasks(loop):
+        return None
+    delay = POLL_INTERVAL
+    if scheduled:
+        delay = min(delay, max(0, scheduled[0].when() - loop.time()))
+    return delay
+`;
@@ -1,7 +1,16 @@
+import { readdirSync } from "node:fs";
 import { type } from "node:os";
 
 if (!("Deno" in globalThis) && "Bun" in globalThis) {
-  const { dlopen, FFIType, CString, JSCallback, ptr } = await import("bun:ffi");
+  const {
+    CFunction,
+    dlopen,
+    FFIType,
+    CString,
+    JSCallback,
+    ptr,
+    toArrayBuffer,
+  } = await import("bun:ffi");
   class Deno {
     static env = {
       get(name) {
@@ -20,6 +29,7 @@ if (!("Deno" in globalThis) && "Bun" in globalThis) {
         case "i32":
           return FFIType.i64_fast;
         case "i64":
+        case "isize":
           return FFIType.i64;
         case "f32":
           return FFIType.f32;
@@ -41,6 +51,9 @@ if (!("Deno" in globalThis) && "Bun" in globalThis) {
         const symbol = symbols[name];
         if ("type" in symbol) {
           throw new Error("Symbol type not supported");
+        } else if (symbol.optional || typeof symbol.result === "object") {
+          // Bun has no struct results, and optional symbols may be missing
+          continue;
         } else {
           bunSymbols[name] = {
             args: symbol.parameters.map((type) => this.transformFFIType(type)),
@@ -66,11 +79,32 @@ if (!("Deno" in globalThis) && "Bun" in globalThis) {
       }
     };
 
+    // Bun has no nonblocking calls, so they run on the calling thread
+    static UnsafeFnPointer = class UnsafeFnPointer {
+      constructor(pointer, def) {
+        this.definition = def;
+        this.inner = CFunction({
+          ptr: pointer,
+          args: def.parameters.map((type) => Deno.transformFFIType(type)),
+          returns: Deno.transformFFIType(def.result),
+        });
+      }
+
+      call(...args) {
+        const result = this.inner(...args);
+        return this.definition.nonblocking ? Promise.resolve(result) : result;
+      }
+    };
+
     static UnsafePointerView = class UnsafePointerView {
       static getCString(ptr) {
         return new CString(ptr);
       }
 
+      static getArrayBuffer(ptr, byteLength, offset = 0) {
+        return toArrayBuffer(ptr, offset, byteLength);
+      }
+
       constructor(ptr) {
         this.ptr = ptr;
       }
@@ -98,6 +132,26 @@ if (!("Deno" in globalThis) && "Bun" in globalThis) {
       }
     };
 
+    // Used to find the Python library
+    static Command = class Command {
+      constructor(command, options) {
+        this.command = command;
+        this.options = options;
+      }
+
+      outputSync() {
+        const { success, stdout } = Bun.spawnSync(
+          [this.command, ...this.options.args],
+          { stderr: "ignore" },
+        );
+        return { success, stdout };
+      }
+    };
+
+    static readDirSync(path) {
+      return readdirSync(path).map((name) => ({ name }));
+    }
+
     static test(name, fn) {
       globalThis.DenoTestCompat(name, fn);
     }
@@ -0,0 +1,82 @@
+/**
+ * Configuration of the interpreter, applied when it is initialized, which
+ * happens when the bridge (`mod.ts`) is first imported. See `configure`.
+ */
+export interface PythonConfig {
+  /**
+   * Virtual environment to use, whose packages are importable instead of the
+   * ones installed system-wide. Defaults to the active one, if any (as set in
+   * the `VIRTUAL_ENV` environment variable).
+   */
+  venv?: string;
+  /** Location of the standard library, like the `PYTHONHOME` variable. */
+  home?: string;
+  /** Paths searched for modules first, like the `PYTHONPATH` variable. */
+  pythonPath?: string[];
+  /** Value of `sys.argv`, `[""]` by default. */
+  argv?: string[];
+  /**
+   * Runs in isolated mode (like `python -I`), ignoring environment variables
+   * and the user site-packages directory.
+   */
+  isolated?: boolean;
+  /** Does not import the `site` module on startup (like `python -S`). */
+  noSite?: boolean;
+  /** Enables or disables the UTF-8 mode (like `python -X utf8`). */
+  utf8Mode?: boolean;
+  /** Optimization level, `1` is like `python -O` and `2` like `-OO`. */
+  optimizationLevel?: 0 | 1 | 2;
+  /** Implementation specific options (like `python -X dev`). */
+  xOptions?: Record<string, string | boolean>;
+}
+
+let config: PythonConfig = {};
+let applied = false;
+
+/**
+ * Configures the interpreter before it is initialized. As it is initialized
+ * as soon as the bridge is imported, this must be called from a module that
+ * is evaluated before:
+ *
+ * ```ts
+ * // config.ts
+ * import { configure } from "https://deno.land/x/python/src/config.ts";
+ * configure({ venv: ".venv", noSite: true });
+ *
+ * // main.ts
+ * import "./config.ts";
+ * import { python } from "jsr:@denosaurs/python";
+ * ```
+ *
+ * Only the last configuration is used. Throws if the interpreter has already
+ * been initialized.
+ */
+export function configure(options: PythonConfig) {
+  if (applied) {
+    throw new Error(
+      "Python is already initialized, configure it before importing it",
+    );
+  }
+  config = options;
+}
+
+/**
+ * Returns the configuration to initialize the interpreter with, after which
+ * it can no longer be changed.
+ *
+ * @private
+ */
+export function takeConfig(): PythonConfig {
+  if (!applied) {
+    applied = true;
+    // Bun can't apply it, so it is only used there when asked to, like when
+    // the variable can't be read
+    const active = "Bun" in globalThis ||
+        Deno.permissions.querySync({ name: "env", variable: "VIRTUAL_ENV" })
+            .state !== "granted"
+      ? undefined
+      : Deno.env.get("VIRTUAL_ENV");
+    config = { ...config, venv: config.venv ?? active };
+  }
+  return config;
+}
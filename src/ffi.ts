@@ -1,49 +1,374 @@
-import { SYMBOLS } from "./symbols.ts";
-import { postSetup } from "./util.ts";
+import { takeConfig } from "./config.ts";
+import { ERROR_RESULTS, SYMBOLS } from "./symbols.ts";
+import { decoder, postSetup } from "./util.ts";
 
-const searchPath: string[] = [];
-
-const SUPPORTED_VERSIONS = [[3, 13], [3, 12], [3, 11], [3, 10], [3, 9], [3, 8]];
+// Older versions lack symbols that are used
+const MINIMUM_MINOR_VERSION = 8;
 const DENO_PYTHON_PATH = Deno.env.get("DENO_PYTHON_PATH");
+const WINDOWS = Deno.build.os === "windows" ||
+  // @ts-ignore: users reported that `windows_nt` exists at runtime
+  Deno.build.os === "windows_nt";
 
-if (DENO_PYTHON_PATH) {
-  searchPath.push(DENO_PYTHON_PATH);
-} else {
-  if (
-    Deno.build.os === "windows" || Deno.build.os === "linux" ||
-    // @ts-ignore: users reported that `windows_nt` exists at runtime
-    Deno.build.os === "windows_nt"
-  ) {
-    searchPath.push(
-      ...SUPPORTED_VERSIONS.map(([major, minor]) =>
-        `${Deno.build.os === "linux" ? "lib" : ""}python${major}${
-          Deno.build.os === "linux" ? "." : ""
-        }${minor}.${Deno.build.os === "linux" ? "so" : "dll"}`
-      ),
+// Prints the paths of the library of the Python running it
+const LIBRARY_SCRIPT = `
+import json, os, sys, sysconfig
+get = sysconfig.get_config_var
+if os.name == "nt":
+    names = ["python%d%d.dll" % sys.version_info[:2]]
+    dirs = [sys.base_prefix]
+else:
+    names = [get("LDLIBRARY"), get("INSTSONAME")]
+    dirs = [get("LIBDIR"), get("PYTHONFRAMEWORKPREFIX")]
+print(json.dumps([
+    os.path.join(dir, name)
+    for dir in dirs if dir
+    for name in names if name and not name.endswith(".a")
+]))
+`;
+
+/**
+ * Returns whether a permission is granted, without prompting for it.
+ */
+function granted(descriptor: Deno.PermissionDescriptor): boolean {
+  // Bun has no permissions
+  return "Bun" in globalThis ||
+    Deno.permissions.querySync(descriptor).state === "granted";
+}
+
+/**
+ * Returns the value of an environment variable, or the given default if it is
+ * not set. Returns nothing if it can't be read, so that what depends on it is
+ * skipped.
+ */
+function env(variable: string, fallback?: string): string | undefined {
+  if (!granted({ name: "env", variable })) {
+    return undefined;
+  }
+  return Deno.env.get(variable) ?? fallback;
+}
+
+/**
+ * Returns the path of the directory containing the given path.
+ */
+function parent(path: string): string {
+  return path.replace(/[\\/][^\\/]*$/, "");
+}
+
+/**
+ * Returns the Python executables to ask for their library, from the most
+ * relevant: the base interpreter of the virtual environment (see
+ * `configure`), the active conda environment, and the one on the `PATH`
+ * (which may be a pyenv shim, running the version it selects).
+ */
+function pythonExecutables(): string[] {
+  const executables: string[] = [];
+  const { venv } = takeConfig();
+  if (venv !== undefined) {
+    executables.push(
+      WINDOWS ? `${venv}\\Scripts\\python.exe` : `${venv}/bin/python`,
     );
-  } else if (Deno.build.os === "darwin") {
-    for (
-      const framework of [
-        "/Library/Frameworks/Python.framework/Versions",
-        "/opt/homebrew/Frameworks/Python.framework/Versions",
-        "/usr/local/Frameworks/Python.framework/Versions",
-      ]
-    ) {
-      for (const [major, minor] of SUPPORTED_VERSIONS) {
-        searchPath.push(`${framework}/${major}.${minor}/Python`);
-      }
+  }
+  const conda = env("CONDA_PREFIX");
+  if (conda !== undefined) {
+    executables.push(WINDOWS ? `${conda}\\python.exe` : `${conda}/bin/python`);
+  }
+  executables.push("python3", "python");
+  return executables;
+}
+
+/**
+ * Returns the paths of the library of a Python executable, or nothing if it
+ * can't be run.
+ */
+function askExecutable(executable: string): string[] {
+  if (!granted({ name: "run", command: executable })) {
+    return [];
+  }
+  try {
+    const { success, stdout } = new Deno.Command(executable, {
+      args: ["-c", LIBRARY_SCRIPT],
+      stdout: "piped",
+      stderr: "null",
+    }).outputSync();
+    return success ? JSON.parse(decoder.decode(stdout)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Returns the paths of the library of a Python executable which are found
+ * next to it, without running it: in the installation it belongs to, or in
+ * the one of the base interpreter for a virtual environment. Only libraries
+ * of its version are taken, as an installation may hold several. Returns
+ * nothing if it can't be told this way.
+ */
+function librariesNextTo(executable: string): string[] {
+  // Virtual environments point to the directory of the base interpreter, and
+  // tell its version (as `version_info` when created by virtualenv or uv)
+  const config = readTextFile(`${parent(parent(executable))}/pyvenv.cfg`);
+  if (config !== undefined) {
+    const home = config.match(/^home\s*=\s*(.*?)\s*$/m)?.[1];
+    const minor = config.match(/^version(?:_info)?\s*=\s*3\.(\d+)/m)?.[1];
+    if (home === undefined || minor === undefined) {
+      return [];
+    }
+    return installationLibraries(WINDOWS ? home : parent(home))
+      .filter((library) => library.minor === Number(minor))
+      .map(({ path }) => path);
+  }
+
+  const path = realPath(findExecutable(executable));
+  if (path === undefined) {
+    return [];
+  }
+  // Executables are in the prefix of their installation on Windows, which
+  // only holds the library of their version. Elsewhere, they are in its
+  // `bin` directory, and named after their version once symlinks are
+  // followed.
+  if (WINDOWS) {
+    return installationLibraries(parent(path)).map(({ path }) => path);
+  }
+  const minor = path.match(/[\\/]python3\.(\d+)$/)?.[1];
+  if (minor === undefined) {
+    return [];
+  }
+  return installationLibraries(parent(parent(path)))
+    .filter((library) => library.minor === Number(minor))
+    .map(({ path }) => path);
+}
+
+/**
+ * Returns the path of an executable, searching the `PATH` for it if it is
+ * given by name, or nothing if it can't be found.
+ */
+function findExecutable(executable: string): string | undefined {
+  if (/[\\/]/.test(executable)) {
+    return executable;
+  }
+  for (const dir of env("PATH")?.split(WINDOWS ? ";" : ":") ?? []) {
+    const path = `${dir}/${executable}${WINDOWS ? ".exe" : ""}`;
+    if (realPath(path) !== undefined) {
+      return path;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the path a file resolves to once its symlinks are followed, or
+ * nothing if it doesn't exist or can't be read.
+ */
+function realPath(path: string | undefined): string | undefined {
+  if (path === undefined || !granted({ name: "read", path })) {
+    return undefined;
+  }
+  try {
+    return Deno.realPathSync(path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the content of a text file, or nothing if it can't be read.
+ */
+function readTextFile(path: string): string | undefined {
+  if (!granted({ name: "read", path })) {
+    return undefined;
+  }
+  try {
+    return Deno.readTextFileSync(path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the names of the entries of a directory, or nothing if it can't
+ * be read.
+ */
+function readDir(path: string): string[] {
+  if (!granted({ name: "read", path })) {
+    return [];
+  }
+  try {
+    return [...Deno.readDirSync(path)].map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Returns the libraries of supported versions found in a directory, along
+ * with their minor version.
+ */
+function librariesIn(dir: string): { path: string; minor: number }[] {
+  const libraries: { path: string; minor: number }[] = [];
+  // Sorted for `libpython3.N.so` to come before `libpython3.N.so.1.0`
+  for (const name of readDir(dir).sort()) {
+    const match = WINDOWS
+      ? name.match(/^python3(\d+)\.dll$/)
+      : name.match(/^libpython3\.(\d+)\.(so(\.\d+)*|dylib)$/);
+    if (match !== null && Number(match[1]) >= MINIMUM_MINOR_VERSION) {
+      libraries.push({ path: `${dir}/${name}`, minor: Number(match[1]) });
+    }
+  }
+  return libraries;
+}
+
+/**
+ * Returns the libraries of supported versions found in the prefix of a
+ * Python installation, along with their minor version.
+ */
+function installationLibraries(
+  prefix: string,
+): { path: string; minor: number }[] {
+  const dirs = WINDOWS ? [prefix] : [
+    `${prefix}/lib`,
+    `${prefix}/lib64`,
+    `${prefix}/lib/${Deno.build.arch}-linux-gnu`,
+  ];
+  return dirs.flatMap(librariesIn);
+}
+
+/**
+ * Returns the paths of libraries, from the newest version to the oldest.
+ */
+function newestFirst(libraries: { path: string; minor: number }[]): string[] {
+  return libraries.sort((a, b) => b.minor - a.minor).map(({ path }) => path);
+}
+
+/**
+ * Returns the paths of the libraries of Python installations managed by
+ * pyenv, uv and conda, from the newest version to the oldest. Locations
+ * depending on environment variables that can't be read are skipped.
+ */
+function installedLibraries(): string[] {
+  const home = env(WINDOWS ? "USERPROFILE" : "HOME");
+  const inHome = (path: string) =>
+    home === undefined ? undefined : `${home}/${path}`;
+  const data = WINDOWS
+    ? env("APPDATA")
+    : env("XDG_DATA_HOME", inHome(".local/share"));
+  const pyenv = env("PYENV_ROOT", inHome(".pyenv"));
+  const uv = env(
+    "UV_PYTHON_INSTALL_DIR",
+    data === undefined ? undefined : `${data}/uv/python`,
+  );
+  const local = WINDOWS ? env("LOCALAPPDATA") : undefined;
+
+  // Directories containing one installation per entry
+  const roots = [
+    pyenv === undefined ? undefined : `${pyenv}/versions`,
+    inHome(".pyenv/pyenv-win/versions"),
+    uv,
+    // Where the installer from python.org puts them by default
+    local === undefined ? undefined : `${local}/Programs/Python`,
+  ].filter((root) => root !== undefined);
+  const prefixes = roots.flatMap((root) =>
+    readDir(root).map((entry) => `${root}/${entry}`)
+  );
+  if (home !== undefined) {
+    for (const conda of ["miniconda3", "anaconda3", "miniforge3"]) {
+      prefixes.push(`${home}/${conda}`);
+      prefixes.push(
+        ...readDir(`${home}/${conda}/envs`).map((entry) =>
+          `${home}/${conda}/envs/${entry}`
+        ),
+      );
     }
+  }
+
+  return newestFirst(prefixes.flatMap(installationLibraries));
+}
+
+/**
+ * Returns the paths of the libraries found in the usual locations of the
+ * system and in the directories it searches for libraries, from the newest
+ * version to the oldest.
+ */
+function systemLibraries(): string[] {
+  if (WINDOWS) {
+    return newestFirst((env("PATH")?.split(";") ?? []).flatMap(librariesIn));
+  } else if (Deno.build.os === "linux") {
+    return newestFirst([
+      ...(env("LD_LIBRARY_PATH")?.split(":") ?? []).flatMap(librariesIn),
+      ...["/usr/local", "/usr"].flatMap(installationLibraries),
+    ]);
+  } else if (Deno.build.os === "darwin") {
+    const frameworks = [
+      "/Library/Frameworks/Python.framework/Versions",
+      "/opt/homebrew/Frameworks/Python.framework/Versions",
+      "/usr/local/Frameworks/Python.framework/Versions",
+    ].flatMap((framework) =>
+      readDir(framework).flatMap((entry) => {
+        const minor = Number(entry.match(/^3\.(\d+)$/)?.[1]);
+        return minor >= MINIMUM_MINOR_VERSION
+          ? [{ path: `${framework}/${entry}/Python`, minor }]
+          : [];
+      })
+    );
+    return newestFirst([
+      ...(env("DYLD_LIBRARY_PATH")?.split(":") ?? []).flatMap(librariesIn),
+      ...frameworks,
+      ...["/opt/homebrew", "/usr/local"].flatMap(installationLibraries),
+    ]);
   } else {
     throw new Error(`Unsupported OS: ${Deno.build.os}`);
   }
 }
 
-let py!: Deno.DynamicLibrary<typeof SYMBOLS>["symbols"];
+/**
+ * Yields the paths of the libraries to try loading, in order. Those are
+ * only looked for until one is loaded.
+ */
+function* searchPath(): Generator<string> {
+  if (DENO_PYTHON_PATH) {
+    yield DENO_PYTHON_PATH;
+    return;
+  }
+  for (const executable of pythonExecutables()) {
+    // Running it takes a while, so it is only asked if its library can't be
+    // found next to it
+    yield* librariesNextTo(executable);
+    yield* askExecutable(executable);
+  }
+  yield* installedLibraries();
+  yield* systemLibraries();
+}
+
+/**
+ * Python library in use.
+ */
+export interface PythonLibrary {
+  /** Path of the library that was loaded. */
+  path: string;
+  /** Version of Python, such as `3.12.1`. */
+  version: string;
+}
 
-for (const path of searchPath) {
+type Symbols = Deno.DynamicLibrary<typeof SYMBOLS>["symbols"];
+
+let symbols!: Symbols;
+let library!: PythonLibrary;
+// Why each library that was tried could not be loaded
+const failures: string[] = [];
+const tried = new Set<string>();
+
+for (const path of searchPath()) {
+  if (tried.has(path)) {
+    continue;
+  }
+  tried.add(path);
   try {
-    py = Deno.dlopen(path, SYMBOLS).symbols;
+    symbols = Deno.dlopen(path, SYMBOLS).symbols;
     postSetup(path);
+    library = {
+      path,
+      version: Deno.UnsafePointerView.getCString(symbols.Py_GetVersion()!)
+        .split(" ")[0],
+    };
     break;
   } catch (err) {
     if (err instanceof TypeError && !("Bun" in globalThis)) {
@@ -52,6 +377,7 @@ for (const path of searchPath) {
         { cause: err },
       );
     }
+    failures.push(`  ${path}: ${(err as Error).message.split("\n")[0]}`);
     continue;
   }
 }
@@ -59,12 +385,14 @@ for (const path of searchPath) {
 const LIBRARY_NOT_FOUND = new Error(`
 Could not find Python library!
 
-Tried searching for these versions:
-${searchPath.map((e) => "  " + e).join("\n")}
+Tried loading these libraries:
+${failures.join("\n")}
 
-Make sure you have a supported version of Python
-installed on your system, which should be one of
-these: ${SUPPORTED_VERSIONS.map((e) => `${e[0]}.${e[1]}`).join(", ")}
+Make sure you have Python 3.${MINIMUM_MINOR_VERSION} or later installed on your
+system, built as a shared library. It is found by asking the Python of the
+active virtual environment, conda environment or on the PATH for it, and by
+looking for installations managed by pyenv, uv or conda, then in the usual
+locations of the system.
 
 If the module still somehow fails to find it,
 you can open an issue: https://github.com/denosaurs/deno_python/issues
@@ -74,8 +402,238 @@ path, you can set DENO_PYTHON_PATH env variable pointing
 to dll/dylib/so file for Python library.
 `);
 
-if (typeof py !== "object") {
+if (typeof symbols !== "object") {
   throw LIBRARY_NOT_FOUND;
 }
 
-export { py };
+// Whether this JS thread holds the GIL
+let holdingGIL = true;
+// State of this thread while it has released the GIL, if it initialized the
+// interpreter
+let savedThread: Deno.PointerValue | undefined;
+// Whether this thread shares the interpreter another one initialized, see
+// `initialize`
+let shared = false;
+// What PyGILState_Ensure returned while a thread sharing the interpreter
+// holds the GIL
+let gilState = 0;
+// Whether the interpreter has been finalized, see `finalize`
+let finalized = false;
+
+/**
+ * Takes the GIL back, after this thread has released it. It is released
+ * again once the current task is done.
+ */
+function acquireGIL() {
+  if (shared) {
+    gilState = symbols.PyGILState_Ensure();
+  } else {
+    symbols.PyEval_RestoreThread(savedThread!);
+    savedThread = undefined;
+  }
+  holdingGIL = true;
+  queueMicrotask(releaseGIL);
+}
+
+/**
+ * Releases the GIL, so that other threads (Python threads, or other JS
+ * workers) can run Python code while this thread is not using it.
+ *
+ * Threads sharing the interpreter drop their thread state along with it, as
+ * they can't tell when they exit. So data local to such a thread, like
+ * `threading.local` attributes, does not outlive the task it was set in.
+ */
+function releaseGIL() {
+  if (holdingGIL && !finalized) {
+    if (shared) {
+      symbols.PyGILState_Release(gilState);
+    } else {
+      savedThread = symbols.PyEval_SaveThread();
+    }
+    holdingGIL = false;
+  }
+}
+
+/**
+ * Initializes the interpreter using the given function, unless another JS
+ * thread (like the one of a worker) already did so. In that case, this
+ * thread is attached to the interpreter instead, sharing it with the other
+ * threads.
+ *
+ * @returns Whether this thread initialized the interpreter
+ */
+export function initialize(init: () => void): boolean {
+  const initialized = symbols.Py_IsInitialized() !== 0;
+  if (initialized) {
+    shared = true;
+    // Creates a thread state for this thread, taking the GIL
+    gilState = symbols.PyGILState_Ensure();
+  } else {
+    init();
+  }
+  queueMicrotask(releaseGIL);
+  return !initialized;
+}
+
+/**
+ * Runs an operation that runs Python code on other threads, such as a
+ * nonblocking FFI call, releasing the GIL right away for it.
+ */
+export function withoutGIL<T>(operation: () => Promise<T>): Promise<T> {
+  releaseGIL();
+  return operation();
+}
+
+/**
+ * Creates a sub-interpreter using the given function, which returns its
+ * thread state (or null if it failed), and switches back to the current
+ * thread state afterwards.
+ */
+export function newInterpreter(
+  create: () => Deno.PointerValue,
+): Deno.PointerValue {
+  if (isFinalized()) {
+    throw new Error("Python has been shut down");
+  }
+  if (!holdingGIL) {
+    acquireGIL();
+  }
+  const outer = symbols.PyThreadState_Get();
+  const state = create();
+  if (state !== null) {
+    // Creating it made its thread state the current one
+    symbols.PyEval_SaveThread();
+    symbols.PyEval_RestoreThread(outer);
+  }
+  return state;
+}
+
+/**
+ * Runs a function with the given thread state of a sub-interpreter being
+ * the current one, then switches back to the current thread state.
+ */
+export function withThreadState<T>(state: Deno.PointerValue, fn: () => T): T {
+  const leave = enterThreadState(state);
+  try {
+    return fn();
+  } finally {
+    leave(false);
+  }
+}
+
+/**
+ * Ends the sub-interpreter of the given thread state.
+ */
+export function endInterpreter(state: Deno.PointerValue) {
+  const leave = enterThreadState(state);
+  symbols.Py_EndInterpreter(state);
+  leave(true);
+}
+
+/**
+ * Makes the given thread state the current one, taking its GIL, and returns
+ * a function switching back to the previous one, given whether the thread
+ * state has been ended meanwhile.
+ */
+function enterThreadState(
+  state: Deno.PointerValue,
+): (ended: boolean) => void {
+  if (!holdingGIL) {
+    acquireGIL();
+  }
+  const outer = symbols.PyEval_SaveThread();
+  symbols.PyEval_RestoreThread(state);
+  return (ended) => {
+    if (ended) {
+      // No thread state is current anymore, but the GIL is only released
+      // since Python 3.12, which swapping takes care of
+      symbols.PyThreadState_Swap(outer);
+    } else {
+      symbols.PyEval_SaveThread();
+      symbols.PyEval_RestoreThread(outer);
+    }
+  };
+}
+
+/**
+ * Finalizes the interpreter, after which Python can no longer be used: calls
+ * to the C API throw instead.
+ *
+ * @returns Whether flushing buffered data succeeded
+ */
+export function finalize(): boolean {
+  if (!holdingGIL) {
+    acquireGIL();
+  }
+  const result = symbols.Py_FinalizeEx();
+  finalized = true;
+  return result === 0;
+}
+
+/**
+ * Whether the interpreter has been finalized, see `finalize`. Threads sharing
+ * it check whether the thread which initialized it did so meanwhile, which
+ * can only happen while they do not hold the GIL.
+ */
+export function isFinalized(): boolean {
+  if (
+    !finalized && shared && !holdingGIL && symbols.Py_IsInitialized() === 0
+  ) {
+    finalized = true;
+  }
+  return finalized;
+}
+
+// Whether a symbol which fails with a pending exception returned the value it
+// does so with: NULL, or -1 in its C type (all bits set when unsigned)
+function isErrorValue(value: unknown): boolean {
+  return value === null || value === -1 || value === -1n ||
+    value === 0xffffffff;
+}
+
+/**
+ * Wraps the Python C API symbols. Every call makes sure that this thread
+ * holds the GIL, as it is only held by a JS thread while it is using Python,
+ * and throws once the interpreter has been finalized.
+ *
+ * If `onError` is given, the symbols which can fail call it with their name
+ * when they do, see `ERROR_RESULTS`. It is expected to throw the error of the
+ * Python exception they set.
+ */
+export function wrapSymbols(onError?: (name: string) => never): Symbols {
+  return Object.fromEntries(
+    Object.entries(symbols).map(([name, symbol]) => {
+      // Optional symbols are null when missing
+      if (symbol === null) {
+        return [name, null];
+      }
+      const check = onError === undefined
+        ? undefined
+        : ERROR_RESULTS[name as keyof typeof ERROR_RESULTS];
+      // deno-lint-ignore no-explicit-any
+      return [name, (...args: any[]) => {
+        if (isFinalized()) {
+          throw new Error("Python has been shut down");
+        }
+        if (!holdingGIL) {
+          acquireGIL();
+        }
+        // deno-lint-ignore no-explicit-any
+        const value = (symbol as (...args: any[]) => any)(...args);
+        if (
+          check === "null"
+            ? value === null
+            : check === "-1"
+            ? Number(value) === -1
+            : check === "pending" && isErrorValue(value) &&
+              symbols.PyErr_Occurred() !== null
+        ) {
+          onError!(name);
+        }
+        return value;
+      }];
+    }),
+  ) as Symbols;
+}
+
+export { library };
@@ -1,12 +1,114 @@
 // deno-lint-ignore-file no-explicit-any no-fallthrough
 
-import { py } from "./ffi.ts";
-import { cstr, SliceItemRegExp } from "./util.ts";
+import { BRIDGE_MODULE } from "./bridge.ts";
+import { type PythonConfig, takeConfig } from "./config.ts";
+import {
+  endInterpreter,
+  finalize,
+  initialize,
+  isFinalized,
+  library,
+  newInterpreter,
+  type PythonLibrary,
+  withoutGIL,
+  withThreadState,
+  wrapSymbols,
+} from "./ffi.ts";
+import { cstr, encoder, LITTLE_ENDIAN, SliceItemRegExp, wstr } from "./util.ts";
 
-const refregistry = new FinalizationRegistry(py.Py_DecRef);
+// C API symbols throwing the error of the exceptions they fail with
+const py = wrapSymbols((name) => {
+  maybeThrowError();
+  throw new Error(`${name} failed without setting an exception`);
+});
+// C API symbols leaving the exceptions they fail with set
+const unchecked = wrapSymbols();
+
+// Objects freed along with the interpreter are not released again
+function releaseReference(handle: Deno.PointerValue) {
+  if (!isFinalized()) {
+    py.Py_DecRef(handle);
+  }
+}
+const refregistry = new FinalizationRegistry(releaseReference);
+// Whether this JS thread initialized the interpreter, rather than sharing it
+// with the one which did
+let ownsInterpreter = true;
+// releases buffers acquired by `PyObject#getBuffer` once their memory
+// is no longer reachable from JS
+const bufferregistry = new FinalizationRegistry((view: Uint8Array) => {
+  if (!isFinalized()) {
+    py.PyBuffer_Release(view);
+  }
+});
+// keeps JS memory shared with Python by `Python#fromTypedArray` alive,
+// until the memoryview using it is finalized on Python side
+const pinnedBuffers = new Map<number, ArrayBufferView>();
 // keep tracks of all callbacks, because JS can incorrectly GC them
 // using callback.destroy will remove the callback from this map
 const callbacks: { [id: number]: Callback } = {};
+// objects owned by the `Python#scope`s being run, innermost last, while
+// `undefined` stands for code run outside of them, see `unscoped`
+const scopes: (Set<PyObject> | undefined)[] = [];
+// where the objects and callbacks created while references are tracked come
+// from, see `PythonDebug`
+let trackingReferences = false;
+const trackedObjects = new Map<WeakRef<PyObject>, TrackedReference>();
+const trackedRefs = new WeakMap<PyObject, WeakRef<PyObject>>();
+const trackedCallbacks = new Map<Callback, string>();
+const trackingRegistry = new FinalizationRegistry(
+  (ref: WeakRef<PyObject>) => trackedObjects.delete(ref),
+);
+
+interface TrackedReference {
+  type: string;
+  stack: string;
+}
+
+/**
+ * Python objects cached for an interpreter, which can only be used in it.
+ * Sub-interpreters (see `Python#createInterpreter`) each have their own.
+ */
+interface InterpreterState {
+  /** `Python` instance of the interpreter, once created */
+  python?: Python;
+  /** Releases a reference to one of its objects */
+  release: (handle: Deno.PointerValue) => void;
+  /** Releases the references of its objects once garbage collected */
+  registry: FinalizationRegistry<Deno.PointerValue>;
+  /** Python side of the bridge, see `bridge` */
+  bridge?: any;
+  bridgeName?: string;
+  /** Modules used for conversions, by name, see `importModule` */
+  modules: Record<string, any>;
+  /** Types used for conversions, by qualified name, see `loadedType` */
+  types: Record<string, PyObject>;
+  /** Python functions calling callbacks passed to Python */
+  functions: WeakMap<Callback, PyObject>;
+  /** Error classes of its exception types, by type, see `errorClass` */
+  errorClasses: Map<number | bigint, PythonErrorClass>;
+}
+
+const mainInterpreter: InterpreterState = {
+  release: releaseReference,
+  registry: refregistry,
+  modules: {},
+  types: {},
+  functions: new WeakMap(),
+  errorClasses: new Map(),
+};
+// interpreter in use, switched by `SubInterpreter#enter`
+let interpreter = mainInterpreter;
+// sub-interpreters that have not been closed yet
+const subInterpreters = new Set<SubInterpreter>();
+
+/**
+ * Returns the `Python` instance of the interpreter in use, whose built-ins
+ * and converters are the ones to use in it.
+ */
+function currentPython(): Python {
+  return interpreter.python!;
+}
 
 /**
  * Symbol used on proxied Python objects to point to the original PyObject object.
@@ -16,6 +118,8 @@ const callbacks: { [id: number]: Callback } = {};
  */
 export const ProxiedPyObject = Symbol("ProxiedPyObject");
 
+export type { PythonLibrary };
+
 /**
  * Proxied Python object.
  *
@@ -35,8 +139,9 @@ export interface PythonProxy {
  *   `python.float(42.0)`. Note that they become PyObjects,
  *   not JS values but are still easily passable to Python.
  *
- * - `bigint` currently is casted as number and then transformed
- *   to `int` Python type.
+ * - `bigint` becomes `int` in Python, without losing precision no
+ *   matter how large it is. When calling `valueOf` on PyObject, Python
+ *   `int`s that do not fit in a safe integer are returned as `bigint`.
  *
  * - `null` and `undefined` becomes `None` in Python. Note that when
  *   calling `valueOf` on PyObject, it is always `null`.
@@ -53,10 +158,44 @@ export interface PythonProxy {
  *
  * - `Set` becomes `set` in Python.
  *
+ * - Other iterable objects (having `Symbol.iterator`), such as generators,
+ *   become a Python iterator that lazily pulls values from the JS iterator.
+ *   Async iterable objects (having `Symbol.asyncIterator`) become a Python
+ *   asynchronous iterator in the same way.
+ *
+ * - `Promise` and other thenables become a Python awaitable resolving to the
+ *   value of the promise, so Python coroutines can `await` them. In the other
+ *   direction, Python awaitables (coroutines, `asyncio.Future`s, etc.) can be
+ *   awaited in JS through `PyObject#asPromise`.
+ *
+ * - `ArrayBuffer` and typed arrays (`Uint8Array`, `DataView`, etc.) become
+ *   `bytes` in Python, containing a copy of their underlying bytes. To get a
+ *   `bytearray` or `memoryview` instead, use `PyObject.fromBytes`. When
+ *   calling `valueOf` on PyObject, `bytes` and `bytearray` are returned
+ *   as `Uint8Array`.
+ *
+ * - `PythonDecimal`, `PythonComplex`, `PythonFraction` and `PythonRange`
+ *   become `decimal.Decimal`, `complex`, `fractions.Fraction` and `range`
+ *   in Python, and vice versa when calling `valueOf` on PyObject. Along with
+ *   them, `valueOf` also returns `uuid.UUID` and `pathlib.PurePath` as
+ *   `string`, `enum.Enum` members as their value (or name, see
+ *   `ValueOfOptions`) and `frozenset` as `Set`. Those conversions are
+ *   one-way: JS has no matching types, so the results become `str`, the
+ *   value's type and `set` when passed back to Python. A converter can be
+ *   registered to get the original types instead, see `Converter`.
+ *
+ * - `Date` becomes a timezone-aware `datetime.datetime` in UTC. When calling
+ *   `valueOf` on PyObject, `datetime.datetime` and `datetime.date` are
+ *   returned as `Date`, `datetime.time` as `PythonTime` and
+ *   `datetime.timedelta` as a number of milliseconds.
+ *
  * - `Callback` (custom type) becomes a Python function. First argument
  *   passed is an object containing kwargs and rest arguments are
  *   positional.
  *
+ * Other types can be supported by registering a converter using
+ * `python.converters`, which takes precedence over the rules above.
+ *
  * If you pass a PyObject, it is used as-is.
  *
  * If you pass a PythonProxy, its original PyObject will be used.
@@ -77,8 +216,184 @@ export type PythonConvertible =
   | { [key: string]: PythonConvertible }
   | Map<PythonConvertible, PythonConvertible>
   | Set<PythonConvertible>
+  | ArrayBuffer
+  | ArrayBufferView
+  | Date
+  | PythonDecimal
+  | PythonComplex
+  | PythonFraction
+  | PythonRange
+  | Iterable<PythonConvertible>
+  | AsyncIterable<PythonConvertible>
+  | PromiseLike<PythonConvertible>
   | Callback;
 
+/**
+ * Options for `PyObject#valueOf`, controlling how Python values are
+ * converted to JS values.
+ */
+export interface ValueOfOptions {
+  /**
+   * How Python `int` values are converted.
+   *
+   * - `"auto"` (default) returns a `number` if the value fits in a safe
+   *   integer, and a `bigint` otherwise.
+   * - `"bigint"` always returns a `bigint`.
+   * - `"number"` always returns a `number`, possibly losing precision.
+   */
+  intAs?: "auto" | "bigint" | "number";
+
+  /**
+   * Whether `enum.Enum` members are converted to their `value` (default),
+   * or to their `name`.
+   */
+  enumAs?: "value" | "name";
+
+  /**
+   * How many levels of nested containers (`list`, `tuple`, `dict`, `set` and
+   * `frozenset`) are converted. Containers nested deeper than this are
+   * returned as proxies, while other values are converted at any depth.
+   * `0` returns even the object itself as a proxy if it is a container.
+   * Unlimited by default.
+   */
+  depth?: number;
+
+  /**
+   * Whether `dict`s are converted to a `Map` (default), or to a plain object.
+   * Only `dict`s that have nothing but `str` keys are converted to a plain
+   * object, others are still converted to a `Map`.
+   */
+  mapAs?: "map" | "object";
+
+  /**
+   * Whether `tuple`s are converted to an array (default), or to a frozen
+   * array, which cannot be modified just like the tuple.
+   */
+  tupleAs?: "array" | "frozen";
+
+  /**
+   * Throw a `TypeError` when a value cannot be converted to a JS value,
+   * instead of returning a proxy to it.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Python types that binary data can be converted to using `PyObject.fromBytes`.
+ */
+export type PythonBytesType = "bytes" | "bytearray" | "memoryview";
+
+/**
+ * Typed arrays that can share memory with Python objects through
+ * the buffer protocol.
+ */
+export type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+/**
+ * Python `datetime.time` converted to JS, since it cannot be
+ * represented by a `Date`.
+ */
+export interface PythonTime {
+  hour: number;
+  minute: number;
+  second: number;
+  microsecond: number;
+  /** Offset from UTC in milliseconds, or `null` if the time is naive. */
+  utcOffset: number | null;
+}
+
+/**
+ * Converts values of a type between JS and Python, both for `PyObject.from`
+ * and `PyObject#valueOf`. See `ConverterRegistry` for usage.
+ */
+export interface Converter<T = any> {
+  /** JS class whose instances are converted using `toPython`. */
+  jsClass?: abstract new (...args: any[]) => T;
+  /**
+   * Tests whether a JS value is converted using `toPython`,
+   * for values that are not identified by their class.
+   */
+  test?: (value: unknown) => boolean;
+  /** Converts a JS value to a value that can be passed to Python. */
+  toPython?: (value: T) => PythonConvertible;
+  /**
+   * Python type (class) whose instances, including instances of
+   * its subclasses, are converted using `fromPython`.
+   */
+  pythonType?: PythonConvertible;
+  /** Converts a proxied Python object to a JS value. */
+  fromPython?: (value: any, options?: ValueOfOptions) => unknown;
+}
+
+/**
+ * Python `decimal.Decimal` in JS, keeping its exact string representation
+ * since it cannot be represented by a `number` without losing precision.
+ */
+export class PythonDecimal {
+  /** String representation of the decimal, such as `"1.10"` or `"NaN"`. */
+  value: string;
+
+  constructor(value: string | number | bigint) {
+    this.value = String(value);
+  }
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+/** Python `complex` number in JS. */
+export class PythonComplex {
+  constructor(public re: number, public im: number) {}
+
+  toString(): string {
+    return `(${this.re}${this.im < 0 ? "-" : "+"}${Math.abs(this.im)}j)`;
+  }
+}
+
+/** Python `fractions.Fraction` in JS, as an exact ratio of two integers. */
+export class PythonFraction {
+  constructor(public numerator: bigint, public denominator: bigint = 1n) {}
+
+  toString(): string {
+    return `${this.numerator}/${this.denominator}`;
+  }
+}
+
+/** Python `range` in JS, which can be iterated lazily. */
+export class PythonRange {
+  constructor(
+    public start: number,
+    public stop: number,
+    public step: number = 1,
+  ) {
+    if (step === 0) {
+      throw new RangeError("PythonRange step must not be zero");
+    }
+  }
+
+  *[Symbol.iterator](): Generator<number> {
+    for (
+      let i = this.start;
+      this.step > 0 ? i < this.stop : i > this.stop;
+      i += this.step
+    ) {
+      yield i;
+    }
+  }
+}
+
 export type PythonJSCallback = (
   kwargs: any,
   ...args: any[]
@@ -122,6 +437,10 @@ export function kw(
  * passed to Python land. It must be destroyed explicitly
  * to free up resources on Rust-side.
  *
+ * Errors it throws are raised in Python as a `JSError` referring to them (or
+ * a `TypeError`, `ValueError` or `KeyError`, see `PythonKeyError`), which is
+ * thrown back as the original error if it comes back to JS.
+ *
  * Example:
  * ```ts
  * // Creating
@@ -149,17 +468,12 @@ export class Callback {
   static #nextId = 0;
   #id: number;
 
-  // Keep native-facing buffers alive for as long as this Callback exists
-  /** @private */
-  _pyMethodDef?: Uint8Array<ArrayBuffer>;
-  /** @private */
-  _nameBuf?: Uint8Array<ArrayBuffer>;
-  /** @private */
-  _docBuf?: Uint8Array<ArrayBuffer>;
-
   constructor(public callback: PythonJSCallback) {
     this.#id = Callback.#nextId++;
     callbacks[this.#id] = this;
+    if (trackingReferences) {
+      trackedCallbacks.set(this, jsStack().join("\n"));
+    }
     this.unsafe = new Deno.UnsafeCallback(
       {
         parameters: ["pointer", "pointer", "pointer"],
@@ -171,6 +485,16 @@ export class Callback {
         kwargs: Deno.PointerValue,
       ) => {
         let result: PythonConvertible;
+        if (callbackDepth++ === 0) {
+          // Python did not give back the exceptions thrown by the previous
+          // calls, or it would have done so by now
+          for (const { exception } of thrownStacks.values()) {
+            py.Py_DecRef(exception);
+          }
+          thrownStacks.clear();
+        }
+        // Objects it creates are not owned by the scope it is called from
+        scopes.push(undefined);
         // Prepare arguments for the JS callback
         try {
           // Prepare arguments for the JS callback
@@ -182,25 +506,36 @@ export class Callback {
           // Call the actual JS function
           result = callback(jsKwargs, ...jsArgs);
 
-          // Convert the JS return value back to a Python object
-          return PyObject.from(result).handle;
+          // Convert the JS return value back to a Python object, giving
+          // Python a new reference
+          using converted = PyObject.from(result);
+          return converted.owned.handle;
         } catch (e) {
-          // An error occurred in the JS callback.
-          // We need to set a Python exception and return NULL.
-
-          // Prepare the error message for Python
-          const errorMessage = e instanceof Error
-            ? `${e.name}: ${e.message}` // Include JS error type and message
-            : String(e); // Fallback for non-Error throws
-          const cErrorMessage = cstr(`JS Callback Error: ${errorMessage}`);
-
-          const errorTypeHandle =
-            python.builtins.RuntimeError[ProxiedPyObject].handle;
-
-          // Set the Python exception (type and message)
-          py.PyErr_SetString(errorTypeHandle, cErrorMessage);
+          if (e instanceof PythonError) {
+            // Raised again as is, with the frames it was thrown through in JS
+            // kept aside
+            py.Py_IncRef(e.value.handle);
+            thrownStacks.set(Deno.UnsafePointer.value(e.value.handle), {
+              exception: e.value.handle,
+              depth: e.pythonFrames.length,
+              lines: stackLines.get(e)!,
+            });
+            py.PyErr_Restore(
+              e.type.owned.handle,
+              e.value.owned.handle,
+              e.traceback.isNone ? null : e.traceback.owned.handle,
+            );
+            return null;
+          }
 
+          // Raised as an exception referring to the JS error
+          const exception = toPythonException(e);
+          using type = exception.getAttr("__class__");
+          py.PyErr_SetObject(type.handle, exception.handle);
           return null;
+        } finally {
+          scopes.pop();
+          callbackDepth--;
         }
       },
     );
@@ -209,6 +544,75 @@ export class Callback {
   destroy() {
     this.unsafe.close();
     delete callbacks[this.#id];
+    trackedCallbacks.delete(this);
+  }
+
+  /** Same as `destroy`, so callbacks can be declared with `using`. */
+  [Symbol.dispose]() {
+    this.destroy();
+  }
+}
+
+/**
+ * Definition of a Python class implemented in JS, see `Python#defineClass`.
+ *
+ * Every method is a `PythonJSCallback`, so it receives keyword arguments
+ * first, followed by positional ones. Instance methods get `self` as the first
+ * positional argument, and class methods get `cls`.
+ */
+export interface ClassDefinition {
+  /** Base classes, `object` if none are given. */
+  bases?: PythonConvertible[];
+  /**
+   * Instance methods. This includes special methods, such as `__init__`,
+   * `__repr__`, `__len__`, `__getitem__` or `__eq__`.
+   */
+  methods?: Record<string, PythonJSCallback>;
+  /** Static methods, which receive neither `self` nor `cls`. */
+  staticMethods?: Record<string, PythonJSCallback>;
+  /** Class methods, which receive the class as `cls`. */
+  classMethods?: Record<string, PythonJSCallback>;
+  /** Properties, with a getter and optionally a setter. */
+  properties?: Record<string, {
+    get: (self: any) => PythonConvertible;
+    set?: (self: any, value: any) => void;
+  }>;
+  /** Class attributes. */
+  attributes?: Record<string, PythonConvertible>;
+  /** Docstring of the class. */
+  doc?: string;
+  /** Module the class claims to be defined in, `__main__` by default. */
+  module?: string;
+}
+
+/**
+ * Python class implemented in JS, created using `Python#defineClass`.
+ *
+ * It owns all the callbacks implementing the class, which are freed together
+ * using `destroy`. The class, its subclasses and instances must not be used
+ * after that.
+ */
+export class PyClass {
+  /** The Python class as a proxied object. */
+  type: any;
+  #callbacks: Callback[];
+
+  constructor(type: any, callbacks: Callback[]) {
+    this.type = type;
+    this.#callbacks = callbacks;
+  }
+
+  /** Frees all the callbacks implementing the class. */
+  destroy() {
+    for (const callback of this.#callbacks) {
+      callback.destroy();
+    }
+    this.#callbacks = [];
+  }
+
+  /** Same as `destroy`, so classes can be declared with `using`. */
+  [Symbol.dispose]() {
+    this.destroy();
   }
 }
 
@@ -235,7 +639,46 @@ export class Callback {
  * C PyObject.
  */
 export class PyObject {
-  constructor(public handle: Deno.PointerValue) {}
+  #handle: Deno.PointerValue;
+  // Interpreter of the reference this object owns, if it owns one
+  #owner?: InterpreterState;
+  #disposed = false;
+
+  constructor(handle: Deno.PointerValue) {
+    this.#handle = handle;
+  }
+
+  /**
+   * Creates a PyObject owning the given new (strong) reference, such as the
+   * ones returned by most functions of the C API, see `Symbol.dispose`.
+   */
+  static adopt(handle: Deno.PointerValue): PyObject {
+    const object = new PyObject(handle);
+    object.#own();
+    return object;
+  }
+
+  /**
+   * Pointer to the C PyObject. Throws once the object has been disposed.
+   */
+  get handle(): Deno.PointerValue {
+    if (this.#disposed) {
+      throw new Error("PyObject has been disposed");
+    }
+    return this.#handle;
+  }
+
+  // Takes ownership of the reference this object was created with
+  #own() {
+    if (this.#handle !== null) {
+      this.#owner = interpreter;
+      interpreter.registry.register(this, this.#handle, this);
+      scopes.at(-1)?.add(this);
+      if (trackingReferences) {
+        trackReference(this);
+      }
+    }
+  }
 
   /**
    * Check if the object is NULL (pointer) or None type in Python.
@@ -244,18 +687,67 @@ export class PyObject {
     // deno-lint-ignore ban-ts-comment
     // @ts-expect-error
     return this.handle === null || this.handle === 0 ||
-      this.handle === python.None[ProxiedPyObject].handle;
+      Deno.UnsafePointer.equals(
+        this.handle,
+        currentPython().None[ProxiedPyObject].handle,
+      );
   }
 
   /**
-   * Increases ref count of the object and returns it.
+   * Increases ref count of the object and returns it, for functions of the C
+   * API that steal a reference.
+   *
+   * If the object does not own a reference yet (it was created from a
+   * borrowed one), it takes ownership of the reference it was created with
+   * instead, which is released along with the object.
    */
   get owned(): PyObject {
     py.Py_IncRef(this.handle);
-    refregistry.register(this, this.handle);
+    if (this.#owner === undefined) {
+      this.#own();
+    }
     return this;
   }
 
+  /**
+   * Releases the reference this object owns right away, rather than once it
+   * is garbage collected, after which it can no longer be used. Disposing an
+   * object does not affect other PyObjects (or proxies) of the same Python
+   * object, as each of them owns a reference of its own.
+   *
+   * Every PyObject returned by this module owns one, so it can be declared
+   * with `using`, as can proxies:
+   *
+   * ```ts
+   * {
+   *   using data = np.zeros(1_000_000);
+   *   // ...
+   * } // data is released here
+   * ```
+   *
+   * See also `Python#scope`.
+   */
+  [Symbol.dispose](): void {
+    if (this.#disposed) {
+      return;
+    }
+    this.#disposed = true;
+    for (const scope of scopes) {
+      scope?.delete(this);
+    }
+    const ref = trackedRefs.get(this);
+    if (ref !== undefined) {
+      trackedObjects.delete(ref);
+      trackingRegistry.unregister(ref);
+    }
+    const owner = this.#owner;
+    if (owner !== undefined) {
+      this.#owner = undefined;
+      owner.registry.unregister(this);
+      owner.release(this.#handle);
+    }
+  }
+
   /**
    * Creates proxy object that maps basic JS operations on objects
    * such as gets, sets, function calls, has, etc. to Python interpreter API.
@@ -289,11 +781,21 @@ export class PyObject {
    *   we return the JS functions.
    *
    * - Set their attributes. Same as the "get" proxy behavior described above,
-   *   but instead to set attribute / dict key / list index.
+   *   but instead to set attribute / dict key / list index. If none of these
+   *   exist, a new attribute is set.
+   *
+   * - Await them with `toPromise()`, if they are Python awaitables, such as
+   *   coroutines. See `PyObject#asPromise`.
    *
    * - There's also this has accessor on proxy objects, which is basically like
    *   `in` operator in Python. It checks if attribute/dict key exists in the
    *   object.
+   *
+   * Python operators can't be used on proxies, as JS ones would convert them
+   * to primitives, and methods applying them could be confused with the
+   * attributes of the Python object. They are methods of PyObject instead,
+   * like `add`, `matmul`, `lt` or `len` (see `PyObject#add` and the following
+   * ones).
    */
   get proxy(): any {
     // deno-lint-ignore no-this-alias
@@ -320,6 +822,14 @@ export class PyObject {
       value: () => this[Symbol.iterator](),
     });
 
+    Object.defineProperty(object, Symbol.asyncIterator, {
+      value: () => this[Symbol.asyncIterator](),
+    });
+
+    Object.defineProperty(object, Symbol.dispose, {
+      value: () => this[Symbol.dispose](),
+    });
+
     Object.defineProperty(object, ProxiedPyObject, {
       value: this,
       enumerable: false,
@@ -330,7 +840,7 @@ export class PyObject {
     });
 
     Object.defineProperty(object, "valueOf", {
-      value: () => this.valueOf(),
+      value: (options?: ValueOfOptions) => this.valueOf(options),
     });
 
     // Proxied object must be a function in order for it
@@ -342,27 +852,38 @@ export class PyObject {
           return (object as any)[name];
         }
 
+        // Proxies must return the actual value of read-only properties,
+        // such as `toString` and `valueOf`, even if Python object has them.
+        const descriptor = Object.getOwnPropertyDescriptor(object, name);
+        if (
+          descriptor !== undefined && !descriptor.configurable &&
+          !descriptor.writable
+        ) {
+          return descriptor.value;
+        }
+
         if (typeof name === "string" && /^\d+$/.test(name)) {
-          if (this.isInstance(python.list) || this.isInstance(python.tuple)) {
-            const item = py.PyList_GetItem(
-              this.handle,
-              parseInt(name),
-            );
-            if (item !== null) {
-              return new PyObject(item).proxy;
-            }
+          // Items are borrowed from the list or tuple
+          const index = parseInt(name);
+          if (
+            this.isInstance(currentPython().list) &&
+            index < py.PyList_Size(this.handle)
+          ) {
+            return new PyObject(py.PyList_GetItem(this.handle, index)).owned
+              .proxy;
+          } else if (
+            this.isInstance(currentPython().tuple) &&
+            index < py.PyTuple_Size(this.handle)
+          ) {
+            return new PyObject(py.PyTuple_GetItem(this.handle, index)).owned
+              .proxy;
           }
         }
 
         if (typeof name === "string" && isSlice(name)) {
-          const slice = toSlice(name);
-          const item = py.PyObject_GetItem(
-            this.handle,
-            slice.handle,
-          );
-          if (item !== null) {
-            return new PyObject(item).proxy;
-          }
+          using slice = toSlice(name);
+          return PyObject.adopt(py.PyObject_GetItem(this.handle, slice.handle))
+            .proxy;
         }
 
         // Don't wanna throw errors when accessing properties.
@@ -372,13 +893,20 @@ export class PyObject {
         if (attr === undefined) {
           if (name in object) {
             return (object as any)[name];
-          } else if (typeof name === "string" && this.isInstance(python.dict)) {
+          } else if (name === "toPromise" && this.hasAttr("__await__")) {
+            // Proxies are not thenables, as they would otherwise be run
+            // whenever a promise resolves to one
+            return () => this.asPromise().then((result) => result.proxy);
+          } else if (
+            typeof name === "string" && this.isInstance(currentPython().dict)
+          ) {
             const value = py.PyDict_GetItemString(
               this.handle,
               cstr(name),
             );
             if (value !== null) {
-              return new PyObject(value).proxy;
+              // The value is borrowed from the dict
+              return new PyObject(value).owned.proxy;
             }
           }
         } else {
@@ -387,34 +915,33 @@ export class PyObject {
       },
 
       set: (_, name, value) => {
+        if (typeof name === "symbol") {
+          return false;
+        }
         name = String(name);
         if (this.hasAttr(name)) {
           this.setAttr(String(name), value);
           return true;
-        } else if (this.isInstance(python.dict)) {
-          py.PyDict_SetItemString(
-            this.handle,
-            cstr(name),
-            PyObject.from(value).handle,
-          );
+        } else if (this.isInstance(currentPython().dict)) {
+          using item = PyObject.from(value);
+          py.PyDict_SetItemString(this.handle, cstr(name), item.handle);
           return true;
-        } else if ((this.isInstance(python.list)) && /^\d+$/.test(name)) {
-          py.PyList_SetItem(
-            this.handle,
-            Number(name),
-            PyObject.from(value).handle,
-          );
+        } else if (
+          (this.isInstance(currentPython().list)) && /^\d+$/.test(name)
+        ) {
+          using item = PyObject.from(value);
+          // The list steals the reference
+          py.PyList_SetItem(this.handle, Number(name), item.owned.handle);
           return true;
         } else if (isSlice(name)) {
-          const slice = toSlice(name);
-          py.PyObject_SetItem(
-            this.handle,
-            slice.handle,
-            PyObject.from(value).handle,
-          );
+          using slice = toSlice(name);
+          using item = PyObject.from(value);
+          py.PyObject_SetItem(this.handle, slice.handle, item.handle);
           return true;
         } else {
-          return false;
+          // Creates a new attribute
+          this.setAttr(name, value);
+          return true;
         }
       },
 
@@ -426,7 +953,7 @@ export class PyObject {
         name = String(name);
 
         return this.hasAttr(name) ||
-          (this.isInstance(python.dict) &&
+          (this.isInstance(currentPython().dict) &&
             this.proxy.__contains__(name).valueOf()) ||
           name in object;
       },
@@ -437,148 +964,356 @@ export class PyObject {
    * Calls Python `isinstance` function.
    */
   isInstance(cls: PythonConvertible): boolean {
-    return py.PyObject_IsInstance(this.handle, PyObject.from(cls).handle) !== 0;
+    using type = PyObject.from(cls);
+    return py.PyObject_IsInstance(this.handle, type.handle) !== 0;
   }
 
   /**
    * Performs an equals operation on the Python object.
    */
   equals(rhs: PythonConvertible): boolean {
-    const rhsObject = PyObject.from(rhs);
+    using rhsObject = PyObject.from(rhs);
     const comparison = py.PyObject_RichCompareBool(
       this.handle,
       rhsObject.handle,
-      3,
+      // Py_EQ
+      2,
     );
-    if (comparison === -1) {
-      maybeThrowError();
-    }
     return comparison === 1;
   }
 
+  // Applies a binary operator of the number protocol
+  #binary(
+    operator: (a: Deno.PointerValue, b: Deno.PointerValue) => Deno.PointerValue,
+    other: PythonConvertible,
+  ): PyObject {
+    using rhs = PyObject.from(other);
+    return PyObject.adopt(operator(this.handle, rhs.handle));
+  }
+
+  // Compares using the given operator of `PyObject_RichCompare`
+  #compare(other: PythonConvertible, operator: number): PyObject {
+    using rhs = PyObject.from(other);
+    return PyObject.adopt(
+      py.PyObject_RichCompare(this.handle, rhs.handle, operator),
+    );
+  }
+
+  /** Returns `this + other`. */
+  add(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_Add, other);
+  }
+
+  /** Returns `this - other`. */
+  sub(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_Subtract, other);
+  }
+
+  /** Returns `this * other`. */
+  mul(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_Multiply, other);
+  }
+
+  /** Returns `this @ other`, such as the product of NumPy matrices. */
+  matmul(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_MatrixMultiply, other);
+  }
+
+  /** Returns `this / other`. */
+  truediv(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_TrueDivide, other);
+  }
+
+  /** Returns `this // other`. */
+  floordiv(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_FloorDivide, other);
+  }
+
+  /** Returns `this % other`. */
+  mod(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_Remainder, other);
+  }
+
+  /** Returns `this ** exponent`, or `pow(this, exponent, modulo)`. */
+  pow(exponent: PythonConvertible, modulo?: PythonConvertible): PyObject {
+    using rhs = PyObject.from(exponent);
+    using mod = PyObject.from(modulo);
+    return PyObject.adopt(
+      py.PyNumber_Power(this.handle, rhs.handle, mod.handle),
+    );
+  }
+
+  /** Returns `-this`. */
+  neg(): PyObject {
+    return PyObject.adopt(py.PyNumber_Negative(this.handle));
+  }
+
+  /** Returns `abs(this)`. */
+  abs(): PyObject {
+    return PyObject.adopt(py.PyNumber_Absolute(this.handle));
+  }
+
+  /** Returns `~this`. */
+  invert(): PyObject {
+    return PyObject.adopt(py.PyNumber_Invert(this.handle));
+  }
+
+  /** Returns `this & other`. */
+  and(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_And, other);
+  }
+
+  /** Returns `this | other`. */
+  or(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_Or, other);
+  }
+
+  /** Returns `this ^ other`. */
+  xor(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_Xor, other);
+  }
+
+  /** Returns `this << other`. */
+  lshift(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_Lshift, other);
+  }
+
+  /** Returns `this >> other`. */
+  rshift(other: PythonConvertible): PyObject {
+    return this.#binary(py.PyNumber_Rshift, other);
+  }
+
+  /**
+   * Returns `this < other`. Like the other comparisons, the result is not
+   * always a `bool`, such as for NumPy arrays which compare item by item.
+   */
+  lt(other: PythonConvertible): PyObject {
+    return this.#compare(other, 0);
+  }
+
+  /** Returns `this <= other`. */
+  le(other: PythonConvertible): PyObject {
+    return this.#compare(other, 1);
+  }
+
+  /** Returns `this == other`, see `equals` to get a boolean. */
+  eq(other: PythonConvertible): PyObject {
+    return this.#compare(other, 2);
+  }
+
+  /** Returns `this != other`. */
+  ne(other: PythonConvertible): PyObject {
+    return this.#compare(other, 3);
+  }
+
+  /** Returns `this > other`. */
+  gt(other: PythonConvertible): PyObject {
+    return this.#compare(other, 4);
+  }
+
+  /** Returns `this >= other`. */
+  ge(other: PythonConvertible): PyObject {
+    return this.#compare(other, 5);
+  }
+
+  /** Checks whether `item in this`. */
+  contains(item: PythonConvertible): boolean {
+    using value = PyObject.from(item);
+    return py.PySequence_Contains(this.handle, value.handle) === 1;
+  }
+
+  /** Returns `len(this)`. */
+  len(): number {
+    return Number(py.PyObject_Size(this.handle));
+  }
+
+  /** Returns `hash(this)`, which is a 64-bit integer. */
+  hash(): bigint {
+    return BigInt(py.PyObject_Hash(this.handle));
+  }
+
   /**
    * Creates a new Python object from the given JS value.
    *
    * Only functions are not supported.
    *
+   * Like every PyObject returned by this module, the result owns a reference
+   * of its own, even if the value already is a PyObject or a proxy.
+   *
    * @param v JS Value
    * @returns Python object
    */
   static from<T extends PythonConvertible>(v: T): PyObject {
+    const converted = currentPython().converters.toPython(v);
+    if (converted !== undefined) {
+      return converted;
+    }
+
     switch (typeof v) {
       case "boolean": {
-        return new PyObject(
+        return PyObject.adopt(
           py.PyBool_FromLong(v ? 1 : 0),
         );
       }
 
       case "number": {
-        if (Number.isInteger(v)) {
-          return new PyObject(py.PyLong_FromLong(v));
+        if (Number.isSafeInteger(v)) {
+          return PyObject.adopt(py.PyLong_FromLongLong(BigInt(v)));
+        } else if (Number.isInteger(v)) {
+          return PyObject.from(BigInt(v));
         } else {
-          return new PyObject(py.PyFloat_FromDouble(v));
+          return PyObject.adopt(py.PyFloat_FromDouble(v));
         }
       }
 
       case "bigint": {
-        // TODO
-        return new PyObject(
-          py.PyLong_FromLong(Number(v)),
+        // Going through a hex string lets Python parse integers of any size,
+        // and it is not subject to the limit on decimal digits in `int()`.
+        return PyObject.adopt(
+          py.PyLong_FromString(cstr(v.toString(16)), null, 16),
         );
       }
 
       case "object": {
         if (v === null /*or void*/) {
-          return python.builtins.None[ProxiedPyObject];
+          return currentPython().builtins.None[ProxiedPyObject];
         } else if (ProxiedPyObject in v) {
           const proxy = v as PythonProxy;
-          return proxy[ProxiedPyObject];
+          return new PyObject(proxy[ProxiedPyObject].handle).owned;
+        } else if (ArrayBuffer.isView(v) || v instanceof ArrayBuffer) {
+          return PyObject.fromBytes(v);
+        } else if (v instanceof Date) {
+          const time = v.getTime();
+          if (isNaN(time)) {
+            throw new RangeError("Cannot convert Invalid Date to Python");
+          }
+          // Adding a timedelta to the epoch is exact, unlike going through
+          // a float timestamp, and works for dates before the epoch on all
+          // platforms.
+          const { datetime, timedelta, timezone } = importModule("datetime");
+          return (datetime(1970, 1, 1, kw`tzinfo=${timezone.utc}`).__add__(
+            timedelta(kw`milliseconds=${time}`),
+          ) as PythonProxy)[ProxiedPyObject];
+        } else if (v instanceof PythonDecimal) {
+          return importModule("decimal").Decimal(v.value)[ProxiedPyObject];
+        } else if (v instanceof PythonComplex) {
+          return PyObject.adopt(py.PyComplex_FromDoubles(v.re, v.im));
+        } else if (v instanceof PythonFraction) {
+          return importModule("fractions").Fraction(
+            v.numerator,
+            v.denominator,
+          )[ProxiedPyObject];
+        } else if (v instanceof PythonRange) {
+          return currentPython().range(
+            v.start,
+            v.stop,
+            v.step,
+          )[ProxiedPyObject];
         } else if (Array.isArray(v)) {
           const list = py.PyList_New(v.length);
           for (let i = 0; i < v.length; i++) {
-            py.PyList_SetItem(list, i, PyObject.from(v[i]).owned.handle);
+            using item = PyObject.from(v[i]);
+            py.PyList_SetItem(list, i, item.owned.handle);
           }
-          return new PyObject(list);
+          return PyObject.adopt(list);
         } else if (v instanceof Callback) {
+          const cached = interpreter.functions.get(v);
+          if (cached !== undefined) {
+            return new PyObject(cached.handle).owned;
+          }
+
           // https://docs.python.org/3/c-api/structures.html#c.PyMethodDef
           // there are extra 4 bytes of padding after ml_flags field
-          // Build and pin PyMethodDef + string buffers on the Callback instance
-          const methodDef = new Uint8Array(8 + 8 + 4 + 4 + 8);
-          v._pyMethodDef = methodDef;
-          const view = new DataView(methodDef.buffer);
-          const LE =
-            new Uint8Array(new Uint32Array([0x12345678]).buffer)[0] !== 0x7;
-
+          const METHOD_DEF_SIZE = 8 + 8 + 4 + 4 + 8;
           const name = "JSCallback:" + (v.callback.name || "anonymous");
-          v._nameBuf = new TextEncoder().encode(`${name}\0`);
-          view.setBigUint64(
-            0,
-            BigInt(
-              Deno.UnsafePointer.value(Deno.UnsafePointer.of(v._nameBuf)!),
-            ),
-            LE,
-          );
-          view.setBigUint64(
-            8,
-            BigInt(Deno.UnsafePointer.value(v.unsafe.pointer)),
-            LE,
-          );
-          // METH_VARARGS | METH_KEYWORDS
-          view.setInt32(16, 0x1 | 0x2, LE);
-
+          const nameBuf = encoder.encode(`${name}\0`);
           // https://github.com/python/cpython/blob/f27593a87c344f3774ca73644a11cbd5614007ef/Objects/typeobject.c#L688
           const SIGNATURE_END_MARKER = ")\n--\n\n";
           // We're not using the correct arguments name, but just using dummy ones (because they're not accessible in js)
           const fnArgs = [...Array(v.callback.length).keys()]
             .map((_, i) => String.fromCharCode(97 + i)).join(",");
-          v._docBuf = new TextEncoder().encode(
+          const docBuf = encoder.encode(
             `${name}(${fnArgs}${SIGNATURE_END_MARKER}\0`,
           );
-          view.setBigUint64(
-            24,
-            BigInt(
-              Deno.UnsafePointer.value(Deno.UnsafePointer.of(v._docBuf)!),
-            ),
-            LE,
+
+          // The PyMethodDef and its strings are kept in a bytes object, the
+          // function's self, as Python reads them until the function is
+          // freed, which may happen after the callback (or the JS thread it
+          // belongs to) is gone
+          const size = METHOD_DEF_SIZE + nameBuf.length + docBuf.length;
+          using self = PyObject.adopt(
+            py.PyBytes_FromStringAndSize(null, BigInt(size)),
           );
-          const fn = py.PyCFunction_NewEx(
-            v._pyMethodDef,
-            PyObject.from(null).handle,
-            null,
+          const methodDef = py.PyBytes_AsString(self.handle);
+          const memory = new Uint8Array(
+            Deno.UnsafePointerView.getArrayBuffer(methodDef!, size),
           );
-
-          // NOTE: we need to extend `pyMethodDef` lifetime
-          // Otherwise V8 can release it before the callback is called
-          // Is this still needed (after the change of pinning fields to the callabck) ? might be
-          const pyObject = new PyObject(fn);
-          return pyObject;
+          memory.set(nameBuf, METHOD_DEF_SIZE);
+          memory.set(docBuf, METHOD_DEF_SIZE + nameBuf.length);
+          const address = BigInt(Deno.UnsafePointer.value(methodDef));
+          const view = new DataView(memory.buffer);
+          view.setBigUint64(
+            0,
+            address + BigInt(METHOD_DEF_SIZE),
+            LITTLE_ENDIAN,
+          );
+          view.setBigUint64(
+            8,
+            BigInt(Deno.UnsafePointer.value(v.unsafe.pointer)),
+            LITTLE_ENDIAN,
+          );
+          // METH_VARARGS | METH_KEYWORDS
+          view.setInt32(16, 0x1 | 0x2, LITTLE_ENDIAN);
+          view.setBigUint64(
+            24,
+            address + BigInt(METHOD_DEF_SIZE + nameBuf.length),
+            LITTLE_ENDIAN,
+          );
+          using fn = PyObject.adopt(
+            py.PyCFunction_NewEx(methodDef, self.handle, null),
+          );
+          // Lets other threads call it as well
+          const pyFunction = unscoped(() => bridge().js_function(fn))[
+            ProxiedPyObject
+          ];
+          interpreter.functions.set(v, pyFunction);
+          return new PyObject(pyFunction.handle).owned;
         } else if (v instanceof PyObject) {
-          return v;
+          return new PyObject(v.handle).owned;
+        } else if (typeof (v as PromiseLike<unknown>).then === "function") {
+          const promise = Promise.resolve(v);
+          // Rejections are raised in Python code once it awaits the promise,
+          // which may happen later than JS expects them to be handled
+          promise.catch(() => {});
+          return bridge().JSPromise(registerObject(promise))[ProxiedPyObject];
         } else if (v instanceof Set) {
           const set = py.PySet_New(null);
           for (const i of v) {
-            const item = PyObject.from(i);
-            py.PySet_Add(set, item.owned.handle);
-            py.Py_DecRef(item.handle);
+            using item = PyObject.from(i);
+            py.PySet_Add(set, item.handle);
           }
-          return new PyObject(set);
+          return PyObject.adopt(set);
+        } else if (!(v instanceof Map) && Symbol.iterator in v) {
+          const id = registerIterator(
+            (v as Iterable<unknown>)[Symbol.iterator](),
+          );
+          return bridge().JSIterator(id)[ProxiedPyObject];
+        } else if (Symbol.asyncIterator in v) {
+          const id = registerIterator(
+            (v as AsyncIterable<unknown>)[Symbol.asyncIterator](),
+          );
+          return bridge().JSAsyncIterator(id)[ProxiedPyObject];
         } else {
           const dict = py.PyDict_New();
           for (
             const [key, value]
               of (v instanceof Map ? v.entries() : Object.entries(v))
           ) {
-            const keyObj = PyObject.from(key);
-            const valueObj = PyObject.from(value);
-            py.PyDict_SetItem(
-              dict,
-              keyObj.owned.handle,
-              valueObj.owned.handle,
-            );
-            py.Py_DecRef(keyObj.handle);
-            py.Py_DecRef(valueObj.handle);
+            using keyObj = PyObject.from(key);
+            using valueObj = PyObject.from(value);
+            py.PyDict_SetItem(dict, keyObj.handle, valueObj.handle);
           }
-          return new PyObject(dict);
+          return PyObject.adopt(dict);
         }
       }
 
@@ -587,7 +1322,7 @@ export class PyObject {
         const str = String(v);
         const encoder = new TextEncoder();
         const u8 = encoder.encode(str);
-        return new PyObject(
+        return PyObject.adopt(
           py.PyUnicode_DecodeUTF8(
             u8,
             u8.byteLength,
@@ -602,7 +1337,7 @@ export class PyObject {
 
       case "function": {
         if (ProxiedPyObject in v) {
-          return (v as any)[ProxiedPyObject];
+          return new PyObject((v as any)[ProxiedPyObject].handle).owned;
         }
 
         if (typeof v === "function") {
@@ -617,6 +1352,44 @@ export class PyObject {
     }
   }
 
+  /**
+   * Creates a new Python object holding a copy of the given binary data.
+   *
+   * @param data Binary data, either an `ArrayBuffer` or a view over one
+   * @param type Python type to create, `bytes` by default. A `memoryview`
+   * is created over a new `bytearray`, so it is writable.
+   * @returns Python object
+   */
+  static fromBytes(
+    data: ArrayBuffer | ArrayBufferView,
+    type: PythonBytesType = "bytes",
+  ): PyObject {
+    const bytes = data instanceof ArrayBuffer
+      ? new Uint8Array(data)
+      : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+
+    let handle: Deno.PointerValue;
+    switch (type) {
+      case "bytes":
+        handle = py.PyBytes_FromStringAndSize(bytes, BigInt(bytes.byteLength));
+        break;
+      case "bytearray":
+        handle = py.PyByteArray_FromStringAndSize(
+          bytes,
+          BigInt(bytes.byteLength),
+        );
+        break;
+      case "memoryview": {
+        using array = PyObject.fromBytes(bytes, "bytearray");
+        handle = py.PyMemoryView_FromObject(array.handle);
+        break;
+      }
+      default:
+        throw new TypeError(`Unsupported bytes type: ${type}`);
+    }
+    return PyObject.adopt(handle);
+  }
+
   /**
    * Tries to get the attribute, returns undefined otherwise.
    *
@@ -624,14 +1397,12 @@ export class PyObject {
    * @returns Python object
    */
   maybeGetAttr(name: string): PyObject | undefined {
-    const obj = new PyObject(
-      py.PyObject_GetAttrString(this.handle, cstr(name)),
-    );
-    if (obj.handle === null) {
+    const attr = unchecked.PyObject_GetAttrString(this.handle, cstr(name));
+    if (attr === null) {
       py.PyErr_Clear();
       return undefined;
     } else {
-      return obj;
+      return PyObject.adopt(attr);
     }
   }
 
@@ -651,15 +1422,8 @@ export class PyObject {
    * Tries to set the attribute, throws an error otherwise.
    */
   setAttr(name: string, v: PythonConvertible): void {
-    if (
-      py.PyObject_SetAttrString(
-        this.handle,
-        cstr(name),
-        PyObject.from(v).handle,
-      ) !== 0
-    ) {
-      maybeThrowError();
-    }
+    using value = PyObject.from(v);
+    py.PyObject_SetAttrString(this.handle, cstr(name), value.handle);
   }
 
   /** Checks if Python object has an attribute of given name. */
@@ -676,9 +1440,46 @@ export class PyObject {
 
   /**
    * Casts a Int Python object as JS Number value.
+   *
+   * Values that do not fit in a safe integer lose precision,
+   * use `asBigInt` if you need the exact value.
    */
   asLong(): number {
-    return py.PyLong_AsLong(this.handle) as number;
+    return Number(this.#asInteger(false));
+  }
+
+  /**
+   * Casts a Int Python object as JS BigInt value, without losing precision.
+   */
+  asBigInt(): bigint {
+    return BigInt(this.#asInteger(true));
+  }
+
+  /**
+   * Converts Python `int` to a `number` if it fits in a safe integer,
+   * otherwise (or if `exact` is set) returns a `bigint`. Values that do not
+   * fit in 64 bits go through their hex representation.
+   */
+  #asInteger(exact: boolean): number | bigint {
+    const overflow = new Int32Array(1);
+    // Not every runtime returns a bigint for 64-bit results
+    const value = BigInt(
+      py.PyLong_AsLongLongAndOverflow(this.handle, overflow),
+    );
+    if (overflow[0] === 0) {
+      if (
+        !exact && value >= Number.MIN_SAFE_INTEGER &&
+        value <= Number.MAX_SAFE_INTEGER
+      ) {
+        return Number(value);
+      }
+      return value;
+    }
+
+    const hex = py.PyNumber_ToBase(this.handle, 16);
+    const str = new PyObject(hex).asString();
+    py.Py_DecRef(hex);
+    return str.startsWith("-") ? -BigInt(str.slice(1)) : BigInt(str);
   }
 
   /**
@@ -690,19 +1491,190 @@ export class PyObject {
 
   /**
    * Casts a String Python object as JS String value.
+   *
+   * Throws the error of the exception raised if it can't be encoded as UTF-8
+   * (or is not a string), where it used to return null.
+   */
+  asString(): string {
+    return Deno.UnsafePointerView.getCString(py.PyUnicode_AsUTF8(this.handle)!);
+  }
+
+  /**
+   * Casts a Bytes or ByteArray Python object as JS Uint8Array value.
+   *
+   * Other objects supporting the buffer protocol, such as `memoryview`,
+   * are first converted to `bytes`. The returned array is a copy, so
+   * modifying it does not affect the Python object.
+   */
+  asBytes(): Uint8Array<ArrayBuffer> {
+    let pointer: Deno.PointerValue;
+    let length: number;
+    const bytearray = this.isInstance(currentPython().bytearray);
+    // Released once its memory has been copied
+    using converted = bytearray || this.isInstance(currentPython().bytes)
+      ? undefined
+      : currentPython().bytes(this)[ProxiedPyObject] as PyObject;
+    if (bytearray) {
+      pointer = py.PyByteArray_AsString(this.handle);
+      length = Number(py.PyByteArray_Size(this.handle));
+    } else {
+      const bytes = converted ?? this;
+      const pointers = new BigUint64Array(1);
+      const lengths = new BigInt64Array(1);
+      py.PyBytes_AsStringAndSize(bytes.handle, pointers, lengths);
+      pointer = Deno.UnsafePointer.create(pointers[0]);
+      length = Number(lengths[0]);
+    }
+
+    if (pointer === null || length === 0) {
+      return new Uint8Array(0);
+    }
+    return new Uint8Array(
+      Deno.UnsafePointerView.getArrayBuffer(pointer, length),
+    ).slice();
+  }
+
+  /**
+   * Acquires the memory of a Python object supporting the buffer protocol,
+   * such as NumPy arrays, `array.array`, `bytearray` or `memoryview`.
+   *
+   * The memory is shared, not copied. See `PyBuffer` for details.
    */
-  asString(): string | null {
-    const str = py.PyUnicode_AsUTF8(this.handle);
-    return str !== null ? Deno.UnsafePointerView.getCString(str) : null;
+  getBuffer(): PyBuffer {
+    return new PyBuffer(this);
+  }
+
+  /**
+   * Returns a TypedArray sharing memory with a Python object supporting
+   * the buffer protocol, such as a NumPy array.
+   *
+   * Shortcut for `getBuffer().data`, see `PyBuffer` for details.
+   */
+  asTypedArray(): TypedArray {
+    return this.getBuffer().data;
+  }
+
+  /**
+   * Casts a Datetime or Date Python object as JS Date value.
+   *
+   * Timezone-aware datetimes are converted exactly, while naive ones are
+   * interpreted as local time, just like Python does. Dates become midnight
+   * UTC of that day. Note that microseconds are truncated to milliseconds.
+   */
+  asDate(): Date {
+    const { date, datetime, timezone } = importModule("datetime");
+    if (!this.isInstance(date)) {
+      throw new TypeError(`Cannot convert ${this.toString()} to Date`);
+    }
+
+    const result = new Date(0);
+    let value = this.proxy;
+    if (!this.isInstance(datetime)) {
+      result.setUTCFullYear(
+        value.year.valueOf(),
+        value.month.valueOf() - 1,
+        value.day.valueOf(),
+      );
+      return result;
+    }
+
+    const aware = value.utcoffset().valueOf() !== null;
+    if (aware) {
+      value = value.astimezone(timezone.utc);
+    }
+    const [year, month, day, hour, minute, second, microsecond] = [
+      "year",
+      "month",
+      "day",
+      "hour",
+      "minute",
+      "second",
+      "microsecond",
+    ].map((name) => value[name].valueOf() as number);
+    const millisecond = Math.floor(microsecond / 1000);
+    if (aware) {
+      result.setUTCFullYear(year, month - 1, day);
+      result.setUTCHours(hour, minute, second, millisecond);
+    } else {
+      result.setFullYear(year, month - 1, day);
+      result.setHours(hour, minute, second, millisecond);
+    }
+    return result;
+  }
+
+  /**
+   * Casts a Time Python object as `PythonTime` object.
+   */
+  asTime(): PythonTime {
+    const value = this.proxy;
+    const utcOffset = value.utcoffset();
+    return {
+      hour: value.hour.valueOf(),
+      minute: value.minute.valueOf(),
+      second: value.second.valueOf(),
+      microsecond: value.microsecond.valueOf(),
+      utcOffset: utcOffset.valueOf() === null
+        ? null
+        : utcOffset[ProxiedPyObject].asTimedelta(),
+    };
+  }
+
+  /**
+   * Casts a Timedelta Python object as JS Number value of milliseconds.
+   * Microseconds are kept as the fractional part.
+   */
+  asTimedelta(): number {
+    const value = this.proxy;
+    return value.days.valueOf() * 86_400_000 +
+      value.seconds.valueOf() * 1000 +
+      value.microseconds.valueOf() / 1000;
+  }
+
+  /**
+   * Casts a Decimal Python object as `PythonDecimal` object.
+   */
+  asDecimal(): PythonDecimal {
+    return new PythonDecimal(this.toString());
+  }
+
+  /**
+   * Casts a Complex Python object as `PythonComplex` object.
+   */
+  asComplex(): PythonComplex {
+    return new PythonComplex(
+      py.PyComplex_RealAsDouble(this.handle),
+      py.PyComplex_ImagAsDouble(this.handle),
+    );
+  }
+
+  /**
+   * Casts a Fraction Python object as `PythonFraction` object.
+   */
+  asFraction(): PythonFraction {
+    return new PythonFraction(
+      this.getAttr("numerator").asBigInt(),
+      this.getAttr("denominator").asBigInt(),
+    );
+  }
+
+  /**
+   * Casts a Range Python object as `PythonRange` object.
+   */
+  asRange(): PythonRange {
+    return new PythonRange(
+      this.getAttr("start").asLong(),
+      this.getAttr("stop").asLong(),
+      this.getAttr("step").asLong(),
+    );
   }
 
   /**
    * Casts a List Python object as JS Array value.
    */
-  asArray(): PythonConvertible[] {
+  asArray(options?: ValueOfOptions): PythonConvertible[] {
     const array: PythonConvertible[] = [];
     for (const i of this) {
-      array.push(i.valueOf());
+      array.push(i.valueOf(options));
     }
     return array;
   }
@@ -713,39 +1685,180 @@ export class PyObject {
    * Note: `from` supports converting both Map and Object to Python Dict.
    * But this only supports returning a Map.
    */
-  asDict(): Map<PythonConvertible, PythonConvertible> {
+  asDict(options?: ValueOfOptions): Map<PythonConvertible, PythonConvertible> {
     const dict = new Map<PythonConvertible, PythonConvertible>();
     const keys = py.PyDict_Keys(this.handle);
     const length = py.PyList_Size(keys) as number;
     for (let i = 0; i < length; i++) {
+      // Both are borrowed, while they may be returned as proxies
       const key = new PyObject(
         py.PyList_GetItem(keys, i),
-      );
+      ).owned;
       const value = new PyObject(
         py.PyDict_GetItem(this.handle, key.handle),
-      );
-      dict.set(key.valueOf(), value.valueOf());
+      ).owned;
+      dict.set(key.valueOf(options), value.valueOf(options));
     }
+    py.Py_DecRef(keys);
     return dict;
   }
 
-  *[Symbol.iterator](): Generator<PyObject> {
+  /**
+   * Iterates over the Python object, like `for` loop does in Python.
+   *
+   * Python generators are driven like JS generators: a value passed to `next`
+   * is sent into the generator using `send`, `throw` raises the error inside
+   * the generator using `throw`, and `return` (which is also called when a
+   * `for..of` loop breaks early) closes it using `close`. The value returned
+   * by the generator becomes the value of the final iterator result.
+   */
+  *[Symbol.iterator](): Generator<
+    PyObject,
+    PyObject | undefined,
+    PythonConvertible | undefined
+  > {
     const iter = py.PyObject_GetIter(this.handle);
-    let item = py.PyIter_Next(iter);
-    while (item !== null) {
-      yield new PyObject(item);
-      item = py.PyIter_Next(iter);
+    const iterator = new PyObject(iter);
+    const generator = iterator.hasAttr("send") && iterator.hasAttr("throw");
+    const send = generator ? iterator.getAttr("send") : undefined;
+
+    let finished = false;
+    let sent: PythonConvertible | undefined;
+    let thrown: { error: unknown } | undefined;
+    try {
+      while (true) {
+        let item: PyObject;
+        try {
+          if (thrown !== undefined) {
+            item = iterator.getAttr("throw").call([
+              toPythonException(thrown.error),
+            ]);
+          } else if (send !== undefined) {
+            item = send.call([sent]);
+          } else {
+            const next = py.PyIter_Next(iter);
+            if (next === null) {
+              finished = true;
+              return undefined;
+            }
+            item = PyObject.adopt(next);
+          }
+        } catch (e) {
+          if (isPythonException(e, currentPython().builtins.StopIteration)) {
+            finished = true;
+            return stopIterationValue(e as PythonError);
+          }
+          finished = true;
+          throw e;
+        }
+
+        thrown = undefined;
+        try {
+          sent = yield item;
+        } catch (error) {
+          if (!generator) {
+            throw error;
+          }
+          thrown = { error };
+        }
+      }
+    } finally {
+      if (!finished && generator) {
+        iterator.getAttr("close").call();
+      }
+      py.Py_DecRef(iter);
+    }
+  }
+
+  /**
+   * Runs the Python awaitable (a coroutine, `asyncio.Future`, `asyncio.Task`
+   * or any object with `__await__`) and resolves to its result.
+   *
+   * Awaitables are run on an asyncio event loop integrated with the JS event
+   * loop, which runs for as long as it has tasks, so neither blocks the other.
+   * Python code running on it can await JS promises in turn.
+   *
+   * Proxied awaitables have a `toPromise` method doing the same, which
+   * resolves to a proxy:
+   *
+   * ```ts
+   * const { sleep } = python.import("asyncio");
+   * await sleep(1).toPromise();
+   * ```
+   */
+  asPromise(): Promise<PyObject> {
+    return runAwaitable(this);
+  }
+
+  /**
+   * Iterates over the Python asynchronous iterable, like `async for` loop does
+   * in Python.
+   *
+   * Python asynchronous generators are driven like JS asynchronous generators,
+   * mapping `next`, `throw` and `return` to `asend`, `athrow` and `aclose`.
+   * Each step is run to completion on an asyncio event loop.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<
+    PyObject,
+    undefined,
+    PythonConvertible | undefined
+  > {
+    const iterator = this.getAttr("__aiter__").call();
+    const generator = iterator.hasAttr("asend") &&
+      iterator.hasAttr("athrow");
+
+    let finished = false;
+    let sent: PythonConvertible | undefined;
+    let thrown: { error: unknown } | undefined;
+    try {
+      while (true) {
+        let item: PyObject;
+        try {
+          if (thrown !== undefined) {
+            item = await runAwaitable(
+              iterator.getAttr("athrow").call([
+                toPythonException(thrown.error),
+              ]),
+            );
+          } else if (generator) {
+            item = await runAwaitable(iterator.getAttr("asend").call([sent]));
+          } else {
+            item = await runAwaitable(iterator.getAttr("__anext__").call());
+          }
+        } catch (e) {
+          finished = true;
+          if (
+            isPythonException(e, currentPython().builtins.StopAsyncIteration)
+          ) {
+            return undefined;
+          }
+          throw e;
+        }
+
+        thrown = undefined;
+        try {
+          sent = yield item;
+        } catch (error) {
+          if (!generator) {
+            throw error;
+          }
+          thrown = { error };
+        }
+      }
+    } finally {
+      if (!finished && generator) {
+        await runAwaitable(iterator.getAttr("aclose").call());
+      }
     }
-    py.Py_DecRef(iter);
   }
 
   /**
    * Casts a Set Python object as JS Set object.
    */
-  asSet(): Set<PythonConvertible> {
+  asSet(options?: ValueOfOptions): Set<PythonConvertible> {
     const set = new Set<PythonConvertible>();
     for (const i of this) {
-      set.add(i.valueOf());
+      set.add(i.valueOf(options));
     }
     return set;
   }
@@ -753,13 +1866,14 @@ export class PyObject {
   /**
    * Casts a Tuple Python object as JS Array value.
    */
-  asTuple(): PythonConvertible[] {
+  asTuple(options?: ValueOfOptions): PythonConvertible[] {
     const tuple = new Array<PythonConvertible>();
     const length = py.PyTuple_Size(this.handle) as number;
     for (let i = 0; i < length; i++) {
       tuple.push(
-        new PyObject(py.PyTuple_GetItem(this.handle, i))
-          .valueOf(),
+        // Borrowed, while it may be returned as a proxy
+        new PyObject(py.PyTuple_GetItem(this.handle, i)).owned
+          .valueOf(options),
       );
     }
     return tuple;
@@ -770,44 +1884,181 @@ export class PyObject {
    *
    * Only primitives are casted as JS value type, otherwise returns
    * a proxy to Python object.
+   *
+   * Python `int`s are returned as `number` when they fit in a safe integer
+   * and as `bigint` otherwise, unless `options.intAs` says otherwise.
+   *
+   * Containers are converted recursively, see `ValueOfOptions` for the ways
+   * to control that.
    */
-  valueOf(): any {
-    const type = py.PyObject_Type(this.handle);
+  valueOf(options?: ValueOfOptions): any {
+    using typeObject = PyObject.adopt(py.PyObject_Type(this.handle));
+    const type = typeObject.handle;
+    const nested = options?.depth === undefined
+      ? options
+      : { ...options, depth: options.depth - 1 };
+    const container = (convert: () => any) =>
+      options?.depth !== undefined && options.depth <= 0
+        ? this.proxy
+        : convert();
 
-    if (Deno.UnsafePointer.equals(type, python.None[ProxiedPyObject].handle)) {
+    const converted = currentPython().converters.fromPython(
+      this,
+      type,
+      options,
+    );
+    if (converted !== NOT_CONVERTED) {
+      return converted;
+    }
+
+    if (
+      Deno.UnsafePointer.equals(
+        this.handle,
+        currentPython().None[ProxiedPyObject].handle,
+      )
+    ) {
       return null;
     } else if (
-      Deno.UnsafePointer.equals(type, python.bool[ProxiedPyObject].handle)
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().bool[ProxiedPyObject].handle,
+      )
     ) {
       return this.asBoolean();
     } else if (
-      Deno.UnsafePointer.equals(type, python.int[ProxiedPyObject].handle)
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().int[ProxiedPyObject].handle,
+      )
     ) {
-      return this.asLong();
+      switch (options?.intAs) {
+        case "bigint":
+          return this.asBigInt();
+        case "number":
+          return this.asLong();
+        default:
+          return this.#asInteger(false);
+      }
     } else if (
-      Deno.UnsafePointer.equals(type, python.float[ProxiedPyObject].handle)
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().float[ProxiedPyObject].handle,
+      )
     ) {
       return this.asDouble();
     } else if (
-      Deno.UnsafePointer.equals(type, python.str[ProxiedPyObject].handle)
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().str[ProxiedPyObject].handle,
+      )
     ) {
       return this.asString();
     } else if (
-      Deno.UnsafePointer.equals(type, python.list[ProxiedPyObject].handle)
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().bytes[ProxiedPyObject].handle,
+      ) ||
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().bytearray[ProxiedPyObject].handle,
+      )
+    ) {
+      return this.asBytes();
+    } else if (
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().list[ProxiedPyObject].handle,
+      )
+    ) {
+      return container(() => this.asArray(nested));
+    } else if (
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().dict[ProxiedPyObject].handle,
+      )
+    ) {
+      return container(() => {
+        const dict = this.asDict(nested);
+        if (
+          options?.mapAs === "object" &&
+          [...dict.keys()].every((key) => typeof key === "string")
+        ) {
+          return Object.fromEntries(dict);
+        }
+        return dict;
+      });
+    } else if (
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().set[ProxiedPyObject].handle,
+      )
+    ) {
+      return container(() => this.asSet(nested));
+    } else if (
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().tuple[ProxiedPyObject].handle,
+      )
+    ) {
+      return container(() => {
+        const tuple = this.asTuple(nested);
+        return options?.tupleAs === "frozen" ? Object.freeze(tuple) : tuple;
+      });
+    } else if (
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().frozenset[ProxiedPyObject].handle,
+      )
     ) {
-      return this.asArray();
+      return container(() => this.asSet(nested));
     } else if (
-      Deno.UnsafePointer.equals(type, python.dict[ProxiedPyObject].handle)
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().complex[ProxiedPyObject].handle,
+      )
     ) {
-      return this.asDict();
+      return this.asComplex();
     } else if (
-      Deno.UnsafePointer.equals(type, python.set[ProxiedPyObject].handle)
+      Deno.UnsafePointer.equals(
+        type,
+        currentPython().range[ProxiedPyObject].handle,
+      )
     ) {
-      return this.asSet();
+      return this.asRange();
+    }
+
+    // Types from other modules are only checked if the module has been
+    // imported, as there cannot be any instances of them otherwise.
+    const isInstanceOf = (module: string, name: string) => {
+      const cls = loadedType(module, name);
+      return cls !== undefined && this.isInstance(cls);
+    };
+
+    if (isInstanceOf(bridgeName(), "JSObject")) {
+      return jsObjects.get(this.getAttr("_js_id").asLong())?.value;
+    } else if (isInstanceOf("datetime", "date")) {
+      return this.asDate();
+    } else if (isInstanceOf("datetime", "time")) {
+      return this.asTime();
+    } else if (isInstanceOf("datetime", "timedelta")) {
+      return this.asTimedelta();
+    } else if (isInstanceOf("decimal", "Decimal")) {
+      return this.asDecimal();
+    } else if (isInstanceOf("fractions", "Fraction")) {
+      return this.asFraction();
+    } else if (isInstanceOf("enum", "Enum")) {
+      return this.getAttr(options?.enumAs === "name" ? "name" : "value")
+        .valueOf(options);
     } else if (
-      Deno.UnsafePointer.equals(type, python.tuple[ProxiedPyObject].handle)
+      isInstanceOf("uuid", "UUID") || isInstanceOf("pathlib", "PurePath")
     ) {
-      return this.asTuple();
+      return this.toString();
+    } else if (options?.strict) {
+      throw new TypeError(
+        `Cannot convert Python object of type ${
+          new PyObject(type).getAttr("__name__").asString()
+        } to a JS value`,
+      );
     } else {
       return this.proxy;
     }
@@ -840,37 +2091,52 @@ export class PyObject {
       if (arg instanceof NamedArgument) {
         named[arg.name] = arg.value;
       } else {
-        py.PyTuple_SetItem(args, startIndex++, PyObject.from(arg).owned.handle);
+        using item = PyObject.from(arg);
+        // The tuple steals the reference
+        py.PyTuple_SetItem(args, startIndex++, item.owned.handle);
       }
     }
     const kwargs = py.PyDict_New();
     for (const [key, value] of Object.entries(named)) {
-      py.PyDict_SetItemString(
-        kwargs,
-        cstr(key),
-        PyObject.from(value).owned.handle,
-      );
+      using item = PyObject.from(value);
+      py.PyDict_SetItemString(kwargs, cstr(key), item.handle);
     }
-    const result = py.PyObject_Call(
-      this.handle,
-      args,
-      kwargs,
-    );
-
-    py.Py_DecRef(args);
-    py.Py_DecRef(kwargs);
-
-    maybeThrowError();
+    try {
+      return PyObject.adopt(py.PyObject_Call(this.handle, args, kwargs));
+    } finally {
+      py.Py_DecRef(args);
+      py.Py_DecRef(kwargs);
+    }
+  }
 
-    return new PyObject(result);
+  /**
+   * Call the PyObject as a Python function on another thread, resolving to
+   * its result once it returns. Meanwhile, the JS thread keeps running and
+   * only takes the GIL for its own calls into Python, so it isn't blocked by
+   * long-running Python code (as long as it releases the GIL now and then,
+   * like pure Python code and most native libraries do).
+   *
+   * JS functions called by Python code run this way are run on the JS
+   * thread, meanwhile the calling thread waits for them.
+   */
+  async callAsync(
+    positional: (PythonConvertible | NamedArgument)[] = [],
+    named: Record<string, PythonConvertible> = {},
+  ): Promise<PyObject> {
+    // Used until it returns, even if the current scope ends meanwhile
+    const call = unscoped(() =>
+      bridge().AsyncCall[ProxiedPyObject].call([this, ...positional], named)
+    ) as PyObject;
+    await runOnThread(call);
+    return call.getAttr("result").call();
   }
 
   /**
    * Returns `str` representation of the Python object.
    */
   toString(): string {
-    return new PyObject(py.PyObject_Str(this.handle))
-      .asString()!;
+    using str = PyObject.adopt(py.PyObject_Str(this.handle));
+    return str.asString();
   }
 
   [Symbol.for("Deno.customInspect")](): string {
@@ -882,49 +2148,837 @@ export class PyObject {
   }
 }
 
-/** Python-related error. */
-export class PythonError extends Error {
-  override name = "PythonError";
+/**
+ * Memory of a Python object, acquired through the buffer protocol
+ * (`PyObject_GetBuffer`), and exposed to JS as a TypedArray without copying.
+ *
+ * The TypedArray type is chosen based on the buffer's format, for example a
+ * NumPy array of dtype `float64` becomes a `Float64Array`, and `int32`
+ * becomes `Int32Array`. Only contiguous buffers (either C or Fortran order)
+ * of native byte order are supported, use `numpy.ascontiguousarray` to get
+ * one from a non-contiguous array.
+ *
+ * The Python object is kept alive for as long as the TypedArray (or rather,
+ * its underlying ArrayBuffer) is reachable, and the buffer is released
+ * automatically after that. It can also be released explicitly using
+ * `release`, after which the TypedArray must not be used anymore.
+ *
+ * Example:
+ * ```ts
+ * const np = python.import("numpy");
+ * const buffer = np.zeros([2, 3])[ProxiedPyObject].getBuffer();
+ * buffer.data; // Float64Array(6)
+ * buffer.shape; // [2, 3]
+ * buffer.strides; // [24, 8]
+ * ```
+ */
+export class PyBuffer {
+  /** Data of the buffer as a TypedArray sharing memory with Python object. */
+  data: TypedArray;
+  /** Python object that owns the memory. */
+  owner: PyObject;
+  /** Format of each item, as understood by Python `struct` module. */
+  format: string;
+  /** Size of each item in bytes. */
+  itemSize: number;
+  /** Length of the buffer in bytes. */
+  byteLength: number;
+  /**
+   * Whether the buffer is read-only. Writing to `data` of such a buffer
+   * modifies an object that Python considers immutable.
+   */
+  readonly: boolean;
+  /** Size of each dimension, in items. */
+  shape: number[];
+  /** Number of bytes to skip to get to next item in each dimension. */
+  strides: number[];
 
-  constructor(
-    public type: PyObject,
-    public value: PyObject,
-    public traceback: PyObject,
-  ) {
-    let message = (value ?? type).toString() ?? "Unknown error";
-    let stack: string | undefined;
-    if (!traceback.isNone) {
-      const tb = python.import("traceback");
-      stack = (tb.format_tb(traceback).valueOf() as string[]).join("");
-      message += stack;
+  // Py_buffer struct, it has to stay around until it is released
+  #view = new Uint8Array(80);
+
+  constructor(owner: PyObject) {
+    // PyBUF_ANY_CONTIGUOUS | PyBUF_FORMAT
+    const flags = 0x0080 | 0x0010 | 0x0008 | 0x0004;
+    // Try to acquire a writable buffer first (PyBUF_WRITABLE),
+    // falling back to a read-only one
+    if (
+      unchecked.PyObject_GetBuffer(owner.handle, this.#view, flags | 0x0001) !==
+        0
+    ) {
+      py.PyErr_Clear();
+      py.PyObject_GetBuffer(owner.handle, this.#view, flags);
+    }
+
+    // https://docs.python.org/3/c-api/buffer.html#c.Py_buffer
+    const struct = new DataView(this.#view.buffer);
+    const buf = Deno.UnsafePointer.create(
+      struct.getBigUint64(0, LITTLE_ENDIAN),
+    );
+    const format = Deno.UnsafePointer.create(
+      struct.getBigUint64(40, LITTLE_ENDIAN),
+    );
+    const ndim = struct.getInt32(36, LITTLE_ENDIAN);
+
+    this.owner = owner;
+    this.byteLength = Number(struct.getBigInt64(16, LITTLE_ENDIAN));
+    this.itemSize = Number(struct.getBigInt64(24, LITTLE_ENDIAN));
+    this.readonly = struct.getInt32(32, LITTLE_ENDIAN) !== 0;
+    this.format = format === null
+      ? "B"
+      : Deno.UnsafePointerView.getCString(format);
+    this.shape = readSizes(struct.getBigUint64(48, LITTLE_ENDIAN), ndim);
+    this.strides = readSizes(struct.getBigUint64(56, LITTLE_ENDIAN), ndim);
+
+    let TypedArray;
+    try {
+      TypedArray = typedArrayForFormat(this.format, this.itemSize);
+    } catch (e) {
+      py.PyBuffer_Release(this.#view);
+      throw e;
     }
+    this.data = buf === null || this.byteLength === 0
+      ? new TypedArray(0)
+      : new TypedArray(
+        Deno.UnsafePointerView.getArrayBuffer(buf, this.byteLength),
+      );
+    bufferregistry.register(this.data.buffer, this.#view, this);
+  }
 
-    super(message);
-    this.stack = stack;
+  /**
+   * Releases the buffer, allowing the Python object to be freed or resized.
+   * The `data` TypedArray must not be used after calling this.
+   */
+  release(): void {
+    if (bufferregistry.unregister(this)) {
+      py.PyBuffer_Release(this.#view);
+    }
   }
 }
 
+// returned by `ConverterRegistry#fromPython` when no converter matched
+const NOT_CONVERTED = Symbol("NOT_CONVERTED");
+
 /**
- * Checks if there's any error set, throws it if there is.
+ * Registry of custom converters between JS and Python types, consulted by
+ * `PyObject.from` and `PyObject#valueOf` before the built-in conversions.
+ * Use the one at `python.converters`. Each sub-interpreter has its own, at
+ * `converters` of the `Python` instance given by `SubInterpreter#enter`.
+ *
+ * JS values are matched by their class (`jsClass`) or a `test` function, and
+ * Python objects by their type (`pythonType`), including subclasses.
+ * Converters registered later take precedence.
+ *
+ * Example:
+ * ```ts
+ * class Point {
+ *   constructor(public x: number, public y: number) {}
+ * }
+ *
+ * const { PyPoint } = python.runModule(`
+ * class PyPoint:
+ *   def __init__(self, x, y):
+ *     self.x, self.y = x, y
+ * `);
+ *
+ * python.converters.register({
+ *   jsClass: Point,
+ *   toPython: (p) => PyPoint(p.x, p.y),
+ *   pythonType: PyPoint,
+ *   fromPython: (p) => new Point(p.x.valueOf(), p.y.valueOf()),
+ * });
+ * ```
  */
-export function maybeThrowError() {
-  const error = py.PyErr_Occurred();
-  if (error === null) {
-    return;
+export class ConverterRegistry {
+  #converters: Converter[] = [];
+  // converters with `pythonType`, keyed by address of the type
+  #byPythonType = new Map<number | bigint, Converter>();
+  #pythonTypes = new Map<Converter, PyObject>();
+
+  /** Number of registered converters. */
+  get size(): number {
+    return this.#converters.length;
   }
 
-  const pointers = new BigUint64Array(3);
-  py.PyErr_Fetch(
-    pointers.subarray(0, 1),
-    pointers.subarray(1, 2),
-    pointers.subarray(2, 3),
+  /**
+   * Registers a converter. At least one of `toPython` (along with `jsClass`
+   * or `test`) or `fromPython` (along with `pythonType`) must be given.
+   */
+  register<T>(converter: Converter<T>): Converter<T> {
+    const toPython = converter.toPython !== undefined &&
+      (converter.jsClass !== undefined || converter.test !== undefined);
+    const fromPython = converter.fromPython !== undefined &&
+      converter.pythonType !== undefined;
+    if (!toPython && !fromPython) {
+      throw new TypeError(
+        "Converter must have either toPython along with jsClass or test, " +
+          "or fromPython along with pythonType",
+      );
+    }
+
+    if (converter.pythonType !== undefined) {
+      const type = unscoped(() => PyObject.from(converter.pythonType!));
+      this.#pythonTypes.set(converter, type);
+      this.#byPythonType.set(Deno.UnsafePointer.value(type.handle), converter);
+    }
+    this.#converters.unshift(converter);
+    return converter;
+  }
+
+  /**
+   * Unregisters a converter, returns whether it was registered.
+   */
+  unregister(converter: Converter): boolean {
+    const index = this.#converters.indexOf(converter);
+    if (index === -1) {
+      return false;
+    }
+    this.#converters.splice(index, 1);
+
+    const type = this.#pythonTypes.get(converter);
+    if (type !== undefined) {
+      this.#pythonTypes.delete(converter);
+      const key = Deno.UnsafePointer.value(type.handle);
+      this.#byPythonType.delete(key);
+      // Another converter for the same type may be registered earlier
+      const previous = this.#converters.find((c) => {
+        const other = this.#pythonTypes.get(c);
+        return other !== undefined &&
+          Deno.UnsafePointer.equals(other.handle, type.handle);
+      });
+      if (previous !== undefined) {
+        this.#byPythonType.set(key, previous);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Converts the JS value using a matching converter,
+   * returns undefined if there is none.
+   */
+  toPython(value: unknown): PyObject | undefined {
+    if (
+      this.#converters.length === 0 || value instanceof PyObject ||
+      ((typeof value === "object" || typeof value === "function") &&
+        value !== null && ProxiedPyObject in value)
+    ) {
+      return undefined;
+    }
+
+    for (const converter of this.#converters) {
+      if (
+        converter.toPython !== undefined &&
+        ((converter.jsClass !== undefined &&
+          value instanceof converter.jsClass) ||
+          converter.test?.(value))
+      ) {
+        return PyObject.from(converter.toPython(value));
+      }
+    }
+  }
+
+  /**
+   * Converts the Python object using a matching converter,
+   * returns `NOT_CONVERTED` if there is none.
+   * @private
+   */
+  fromPython(
+    value: PyObject,
+    type: Deno.PointerValue,
+    options?: ValueOfOptions,
+  ): unknown {
+    if (this.#byPythonType.size === 0) {
+      return NOT_CONVERTED;
+    }
+
+    const exact = this.#byPythonType.get(Deno.UnsafePointer.value(type));
+    if (exact !== undefined) {
+      return exact.fromPython!(value.proxy, options);
+    }
+
+    for (const converter of this.#converters) {
+      const pythonType = this.#pythonTypes.get(converter);
+      if (pythonType !== undefined && value.isInstance(pythonType)) {
+        return converter.fromPython!(value.proxy, options);
+      }
+    }
+    return NOT_CONVERTED;
+  }
+}
+
+/** Python object tracked by `PythonDebug`, which JS still holds. */
+export interface LiveObject {
+  /** The object itself. */
+  object: PyObject;
+  /** Qualified name of its Python type. */
+  type: string;
+  /** JS stack trace of the code which created it. */
+  stack: string;
+}
+
+/**
+ * Diagnostics of the references to Python objects held by JS, available as
+ * `python.debug`, for finding out where leaked ones come from.
+ *
+ * Once `trackReferences` is enabled, the JS stack trace of the code creating
+ * each PyObject (and Callback) is recorded, until it is disposed or garbage
+ * collected. Objects this module keeps around itself, like modules it uses
+ * for conversions, are not tracked.
+ */
+export class PythonDebug {
+  /**
+   * Whether references are tracked, only objects and callbacks created while
+   * it is enabled are.
+   */
+  get trackReferences(): boolean {
+    return trackingReferences;
+  }
+
+  set trackReferences(enabled: boolean) {
+    trackingReferences = enabled;
+  }
+
+  /** Tracked objects which have neither been disposed nor collected yet. */
+  liveObjects(): LiveObject[] {
+    const live: LiveObject[] = [];
+    for (const [ref, { type, stack }] of trackedObjects) {
+      const object = ref.deref();
+      if (object !== undefined) {
+        live.push({ object, type, stack });
+      }
+    }
+    return live;
+  }
+
+  /**
+   * Number of callbacks which have not been destroyed, including the ones
+   * used by this module, whether they are tracked or not.
+   */
+  get liveCallbacks(): number {
+    return Object.keys(callbacks).length;
+  }
+
+  /**
+   * Runs the function with references tracked, and throws an error listing
+   * where the objects and callbacks it created and still holds were created,
+   * if there are any.
+   *
+   * Objects are only released by the garbage collector when they are not
+   * disposed, so it is run before checking if it is exposed (using
+   * `--v8-flags=--expose-gc`), otherwise they count as leaked:
+   *
+   * ```ts
+   * Deno.test("no leaks", async () => {
+   *   await python.debug.assertNoLeaks(() => {
+   *     using list = python.list([1, 2, 3]);
+   *     list.append(4);
+   *   });
+   * });
+   * ```
+   */
+  async assertNoLeaks(fn: () => unknown): Promise<void> {
+    const trackedBefore = new Set<unknown>([
+      ...trackedObjects.keys(),
+      ...trackedCallbacks.keys(),
+    ]);
+    const tracking = trackingReferences;
+    trackingReferences = true;
+    try {
+      await fn();
+    } finally {
+      trackingReferences = tracking;
+    }
+
+    // Objects can't be collected before the code using them is done, and
+    // finalizers run afterwards
+    const gc = (globalThis as { gc?: () => void }).gc;
+    for (let i = 0; i < 3; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      gc?.();
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const leaks: string[] = [];
+    for (const [ref, { type, stack }] of trackedObjects) {
+      if (!trackedBefore.has(ref) && ref.deref() !== undefined) {
+        leaks.push(`PyObject of type ${type}, created\n${stack}`);
+      }
+    }
+    for (const [callback, stack] of trackedCallbacks) {
+      if (!trackedBefore.has(callback)) {
+        leaks.push(`Callback, created\n${stack}`);
+      }
+    }
+    if (leaks.length !== 0) {
+      throw new Error(
+        `${leaks.length} reference(s) leaked:\n\n${leaks.join("\n\n")}`,
+      );
+    }
+  }
+}
+
+// diagnostics available as `python.debug`
+const debug = new PythonDebug();
+
+/**
+ * Error to throw from JS code called by Python to raise a `KeyError` for the
+ * given key, such as from the `__getitem__` method of a class defined using
+ * `python.defineClass`:
+ *
+ * ```ts
+ * throw new PythonKeyError(key);
+ * ```
+ *
+ * Like other JS errors, it is thrown back as is once out of Python.
+ */
+export class PythonKeyError extends Error {
+  override name = "PythonKeyError";
+
+  constructor(public key: PythonConvertible, options?: ErrorOptions) {
+    super(String(key), options);
+  }
+}
+
+/** Constructor of the errors thrown for a Python exception type. */
+export type PythonErrorClass<T extends PythonError = PythonError> = {
+  new (type: PyObject, value: PyObject, traceback: PyObject): T;
+  prototype: T;
+};
+
+/**
+ * Python-related error, thrown when Python code raises an exception.
+ *
+ * The error is an instance of a subclass matching the type of the exception,
+ * which `instanceof` checks following the hierarchy of Python classes (so
+ * with multiple inheritance too). Classes of built-in exceptions are static
+ * properties of this class, and the ones of other exceptions are created once
+ * first needed, see `PythonError.forType`:
+ *
+ * ```ts
+ * try {
+ *   python.dict().__getitem__("missing");
+ * } catch (error) {
+ *   if (error instanceof PythonError.KeyError) {
+ *     console.log(error.args); // ["missing"]
+ *   }
+ * }
+ * ```
+ *
+ * The exception which was being handled, or which it was raised from, is its
+ * `cause`. `ExceptionGroup`s are thrown as `PythonExceptionGroup`s.
+ *
+ * Its `stack` starts with the Python frames of the traceback (which are also
+ * in `pythonFrames`), followed by the JS frames it was thrown from. When the
+ * exception went through JS callbacks, their frames are in between.
+ */
+export class PythonError extends Error {
+  override name = "PythonError";
+  /** Notes added to the exception using `add_note` (Python 3.11+). */
+  notes!: string[];
+  /**
+   * Frames of the traceback of the exception, the most recent call first,
+   * which are also at the top of its `stack`.
+   */
+  pythonFrames!: PythonFrame[];
+
+  constructor(
+    public type: PyObject,
+    public value: PyObject,
+    public traceback: PyObject,
+  ) {
+    super();
+    initPythonError(this, type, value, traceback);
+  }
+
+  /** Arguments the exception was created with, as JS values. */
+  get args(): PythonConvertible[] {
+    return this.value.getAttr("args").valueOf();
+  }
+
+  /**
+   * Returns the class of the errors thrown for the given exception type,
+   * creating it if needed, to check errors against using `instanceof`.
+   */
+  static forType(type: PythonConvertible): PythonErrorClass {
+    using object = PyObject.from(type);
+    return errorClass(object);
+  }
+
+  static override [Symbol.hasInstance](instance: unknown): boolean {
+    if (!pythonErrors.has(instance as object)) {
+      return Function.prototype[Symbol.hasInstance].call(this, instance);
+    }
+    const type = errorTypes.get(this);
+    if (type === undefined) {
+      return this === PythonError ||
+        Function.prototype[Symbol.hasInstance].call(this, instance);
+    }
+    return py.PyErr_GivenExceptionMatches(
+      (instance as PythonError).type.handle,
+      type.handle,
+    ) !== 0;
+  }
+
+  static ArithmeticError: PythonErrorClass;
+  static AssertionError: PythonErrorClass;
+  static AttributeError: PythonErrorClass;
+  static BaseException: PythonErrorClass;
+  static BlockingIOError: PythonErrorClass;
+  static BrokenPipeError: PythonErrorClass;
+  static BufferError: PythonErrorClass;
+  static BytesWarning: PythonErrorClass;
+  static ChildProcessError: PythonErrorClass;
+  static ConnectionAbortedError: PythonErrorClass;
+  static ConnectionError: PythonErrorClass;
+  static ConnectionRefusedError: PythonErrorClass;
+  static ConnectionResetError: PythonErrorClass;
+  static DeprecationWarning: PythonErrorClass;
+  static EOFError: PythonErrorClass;
+  static EnvironmentError: PythonErrorClass;
+  static Exception: PythonErrorClass;
+  static FileExistsError: PythonErrorClass;
+  static FileNotFoundError: PythonErrorClass;
+  static FloatingPointError: PythonErrorClass;
+  static FutureWarning: PythonErrorClass;
+  static GeneratorExit: PythonErrorClass;
+  static IOError: PythonErrorClass;
+  static ImportError: PythonErrorClass;
+  static ImportWarning: PythonErrorClass;
+  static IndentationError: PythonErrorClass;
+  static IndexError: PythonErrorClass;
+  static InterruptedError: PythonErrorClass;
+  static IsADirectoryError: PythonErrorClass;
+  static KeyError: PythonErrorClass;
+  static KeyboardInterrupt: PythonErrorClass;
+  static LookupError: PythonErrorClass;
+  static MemoryError: PythonErrorClass;
+  static ModuleNotFoundError: PythonErrorClass;
+  static NameError: PythonErrorClass;
+  static NotADirectoryError: PythonErrorClass;
+  static NotImplementedError: PythonErrorClass;
+  static OSError: PythonErrorClass;
+  static OverflowError: PythonErrorClass;
+  static PendingDeprecationWarning: PythonErrorClass;
+  static PermissionError: PythonErrorClass;
+  static ProcessLookupError: PythonErrorClass;
+  static RecursionError: PythonErrorClass;
+  static ReferenceError: PythonErrorClass;
+  static ResourceWarning: PythonErrorClass;
+  static RuntimeError: PythonErrorClass;
+  static RuntimeWarning: PythonErrorClass;
+  static StopAsyncIteration: PythonErrorClass;
+  static StopIteration: PythonErrorClass;
+  static SyntaxError: PythonErrorClass;
+  static SyntaxWarning: PythonErrorClass;
+  static SystemError: PythonErrorClass;
+  static SystemExit: PythonErrorClass;
+  static TabError: PythonErrorClass;
+  static TimeoutError: PythonErrorClass;
+  static TypeError: PythonErrorClass;
+  static UnboundLocalError: PythonErrorClass;
+  static UnicodeDecodeError: PythonErrorClass;
+  static UnicodeEncodeError: PythonErrorClass;
+  static UnicodeError: PythonErrorClass;
+  static UnicodeTranslateError: PythonErrorClass;
+  static UnicodeWarning: PythonErrorClass;
+  static UserWarning: PythonErrorClass;
+  static ValueError: PythonErrorClass;
+  static Warning: PythonErrorClass;
+  static ZeroDivisionError: PythonErrorClass;
+  /** Only available in Python 3.10+. */
+  static EncodingWarning?: PythonErrorClass;
+  /** Only available in Python 3.11+. */
+  static BaseExceptionGroup?: PythonErrorClass<PythonExceptionGroup>;
+  /** Only available in Python 3.11+. */
+  static ExceptionGroup?: PythonErrorClass<PythonExceptionGroup>;
+}
+
+/** Frame of the traceback of a Python exception. */
+export interface PythonFrame {
+  /** Name of the file (or module) of the code. */
+  file: string;
+  /** Line number, starting from 1. */
+  line: number;
+  /** Name of the function, `<module>` for the code of a module. */
+  function: string;
+  /** Source code of the line, if available. */
+  code?: string;
+}
+
+/**
+ * Error thrown for a Python `ExceptionGroup` (or `BaseExceptionGroup`), which
+ * is an `AggregateError` of the errors of the exceptions it groups.
+ */
+export interface PythonExceptionGroup extends PythonError, AggregateError {
+  /** Errors of the exceptions, or the JS errors they were raised for. */
+  errors: unknown[];
+}
+
+// Base class of the errors of exception groups, which extends AggregateError
+// rather than PythonError, while being instances of it all the same
+class PythonExceptionGroupBase extends AggregateError {
+  override name = "PythonError";
+  notes!: string[];
+  pythonFrames!: PythonFrame[];
+
+  constructor(
+    public type: PyObject,
+    public value: PyObject,
+    public traceback: PyObject,
+  ) {
+    super(
+      value.getAttr("exceptions").asTuple().map((exception) =>
+        errorFromException((exception as PythonProxy)[ProxiedPyObject])
+      ),
+    );
+    initPythonError(this, type, value, traceback);
+  }
+
+  get args(): PythonConvertible[] {
+    return this.value.getAttr("args").valueOf();
+  }
+}
+
+// Errors created by `initPythonError`, see `PythonError[Symbol.hasInstance]`
+const pythonErrors = new WeakSet<object>();
+// Python types of the error classes created by `errorClass`
+const errorTypes = new WeakMap<object, PyObject>();
+// error classes of built-in exceptions, shared by every interpreter
+const builtinErrors = new Map<number | bigint, PythonErrorClass>();
+// exceptions whose chain is being converted, in case it is circular
+const chaining = new Set<number | bigint>();
+
+// Lines of the stacks of the errors created by `initPythonError`, after the
+// message
+const stackLines = new WeakMap<object, string[]>();
+// Python exceptions thrown through a JS callback by address, with the number
+// of Python frames they had then and the lines of their stack. A reference to
+// each exception is held so that its address is not reused, until it comes
+// back to JS or the next call of a callback from JS code.
+const thrownStacks = new Map<
+  number | bigint,
+  { exception: Deno.PointerValue; depth: number; lines: string[] }
+>();
+// Number of callbacks being called, see `Callback`
+let callbackDepth = 0;
+
+/**
+ * Sets the message, stack, Python frames, notes and cause of an error thrown
+ * for a Python exception.
+ *
+ * The stack is made of the Python frames of the exception, in the same format
+ * as the JS ones, then the JS frames it was thrown from. Exceptions raised
+ * through a JS callback keep the frames of the callback in between.
+ */
+function initPythonError(
+  error: Error & { notes: string[]; pythonFrames: PythonFrame[] },
+  type: PyObject,
+  value: PyObject,
+  traceback: PyObject,
+) {
+  pythonErrors.add(error);
+  const tb = importModule("traceback");
+  // As the last line of the traceback, with notes in Python 3.11+
+  error.message = (tb.format_exception_only(type, value).valueOf() as string[])
+    .join("").trimEnd();
+  error.notes = value.hasAttr("__notes__")
+    ? value.getAttr("__notes__").valueOf()
+    : [];
+
+  error.pythonFrames = [];
+  if (!traceback.isNone) {
+    for (const frame of tb.extract_tb(traceback)[ProxiedPyObject]) {
+      const file = frame.getAttr("filename").valueOf();
+      // Left out like the JS frames of this module
+      if (file === interpreter.bridgeName) {
+        continue;
+      }
+      error.pythonFrames.unshift({
+        file,
+        line: frame.getAttr("lineno").valueOf(),
+        function: frame.getAttr("name").valueOf(),
+        code: frame.getAttr("line").valueOf() || undefined,
+      });
+    }
+  }
+  const pythonLines = error.pythonFrames.map((frame) =>
+    `    at ${frame.function} (${frame.file}:${frame.line})`
+  );
+  const jsLines = jsStack();
+  let lines = [...pythonLines, ...jsLines];
+  const thrown = thrownStacks.get(Deno.UnsafePointer.value(value.handle));
+  if (thrown !== undefined) {
+    thrownStacks.delete(Deno.UnsafePointer.value(value.handle));
+    py.Py_DecRef(thrown.exception);
+    const { depth, lines: inner } = thrown;
+    if (depth <= pythonLines.length) {
+      // The frames it was thrown from are the ones of the callback, followed
+      // by the ones that called Python in the first place
+      let end = inner.length;
+      let common = jsLines.length;
+      while (end > 0 && common > 0 && inner[end - 1] === jsLines[common - 1]) {
+        end--;
+        common--;
+      }
+      lines = [
+        ...inner.slice(0, end),
+        ...pythonLines.slice(depth),
+        ...jsLines,
+      ];
+    }
+  }
+  stackLines.set(error, lines);
+  error.stack = [`${error.name}: ${error.message}`, ...lines].join("\n");
+
+  const key = Deno.UnsafePointer.value(value.handle);
+  if (!chaining.has(key)) {
+    chaining.add(key);
+    try {
+      const cause = chainedException(value);
+      if (cause !== undefined) {
+        Object.defineProperty(error, "cause", {
+          value: errorFromException(cause),
+          writable: true,
+          configurable: true,
+        });
+      }
+    } finally {
+      chaining.delete(key);
+    }
+  }
+}
+
+/**
+ * Returns the exception the given one was raised from, or the one that was
+ * being handled when it was raised, as Python shows them in tracebacks.
+ */
+function chainedException(value: PyObject): PyObject | undefined {
+  const cause = value.getAttr("__cause__");
+  if (!cause.isNone) {
+    return cause;
+  }
+  if (value.getAttr("__suppress_context__").valueOf()) {
+    return undefined;
+  }
+  const context = value.getAttr("__context__");
+  return context.isNone ? undefined : context;
+}
+
+/**
+ * Creates the error to throw for the given Python exception object, or
+ * returns the JS error it was raised for.
+ */
+function errorFromException(exception: PyObject): unknown {
+  const thrown = thrownError(exception);
+  if (thrown !== undefined) {
+    return thrown.error;
+  }
+  const type = exception.getAttr("__class__");
+  const ErrorClass = errorClass(type);
+  return new ErrorClass(type, exception, exception.getAttr("__traceback__"));
+}
+
+/**
+ * Returns the error class of the given Python exception type, creating it
+ * and the ones of its bases if needed. It extends the class of the first base
+ * in the MRO, while `instanceof` checks against every base.
+ */
+function errorClass(type: PyObject): PythonErrorClass {
+  const key = Deno.UnsafePointer.value(type.handle);
+  const cached = builtinErrors.get(key) ?? interpreter.errorClasses.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+  // Kept for as long as the class is
+  return unscoped(() => {
+    const { BaseException, BaseExceptionGroup } = currentPython().builtins;
+    const name = type.getAttr("__name__").asString();
+    if (!currentPython().builtins.issubclass(type, BaseException).valueOf()) {
+      throw new TypeError(`${name} is not an exception type`);
+    }
+    let base: any;
+    const is = (other: any) =>
+      Deno.UnsafePointer.equals(type.handle, other[ProxiedPyObject].handle);
+    if (is(BaseException)) {
+      base = PythonError;
+    } else if (BaseExceptionGroup !== undefined && is(BaseExceptionGroup)) {
+      base = PythonExceptionGroupBase;
+    } else {
+      using mro = type.getAttr("__mro__");
+      // Borrowed from the MRO
+      base = errorClass(new PyObject(py.PyTuple_GetItem(mro.handle, 1)));
+    }
+    const ErrorClass = { [name]: class extends base {} }[name];
+    errorTypes.set(ErrorClass, new PyObject(type.handle).owned);
+    interpreter.errorClasses.set(key, ErrorClass);
+    return ErrorClass;
+  });
+}
+
+/**
+ * Creates the classes of built-in exceptions, setting them as static
+ * properties of `PythonError`.
+ */
+function defineBuiltinErrors() {
+  unscoped(() => {
+    const { BaseException, issubclass, type } = python.builtins;
+    const builtins = python.builtins.__dict__.valueOf({ depth: 1 });
+    for (const [name, value] of builtins as Map<string, any>) {
+      if (
+        !name.startsWith("_") &&
+        python.builtins.isinstance(value, type).valueOf() &&
+        issubclass(value, BaseException).valueOf()
+      ) {
+        const ErrorClass = errorClass(value[ProxiedPyObject]);
+        builtinErrors.set(
+          Deno.UnsafePointer.value(value[ProxiedPyObject].handle),
+          ErrorClass,
+        );
+        (PythonError as any)[name] = ErrorClass;
+      }
+    }
+  });
+}
+
+/**
+ * Checks if there's any error set, throws it if there is.
+ */
+export function maybeThrowError() {
+  const error = py.PyErr_Occurred();
+  if (error === null) {
+    return;
+  }
+
+  const pointers = new BigUint64Array(3);
+  py.PyErr_Fetch(
+    pointers.subarray(0, 1),
+    pointers.subarray(1, 2),
+    pointers.subarray(2, 3),
   );
 
-  const type = new PyObject(Deno.UnsafePointer.create(pointers[0])),
-    value = new PyObject(Deno.UnsafePointer.create(pointers[1])),
-    traceback = new PyObject(Deno.UnsafePointer.create(pointers[2]));
+  // Makes sure the value is an instance of the type
+  py.PyErr_NormalizeException(
+    pointers.subarray(0, 1),
+    pointers.subarray(1, 2),
+    pointers.subarray(2, 3),
+  );
 
-  throw new PythonError(type, value, traceback);
+  // Owned by the error, which may be caught outside of the current scope
+  throw unscoped(() => {
+    const [type, value, traceback] = Array.from(
+      pointers,
+      (pointer) => PyObject.adopt(Deno.UnsafePointer.create(pointer)),
+    );
+    const thrown = thrownError(value);
+    if (thrown !== undefined) {
+      type[Symbol.dispose]();
+      value[Symbol.dispose]();
+      traceback[Symbol.dispose]();
+      return thrown.error;
+    }
+    const ErrorClass = errorClass(type);
+    return new ErrorClass(type, value, traceback);
+  });
 }
 
 /**
@@ -941,6 +2995,10 @@ export class Python {
   float: any;
   /** Python `str` class proxied object */
   str: any;
+  /** Python `bytes` class proxied object */
+  bytes: any;
+  /** Python `bytearray` class proxied object */
+  bytearray: any;
   /** Python `list` class proxied object */
   list: any;
   /** Python `dict` class proxied object */
@@ -949,27 +3007,51 @@ export class Python {
   set: any;
   /** Python `tuple` class proxied object */
   tuple: any;
+  /** Python `frozenset` class proxied object */
+  frozenset: any;
+  /** Python `complex` class proxied object */
+  complex: any;
+  /** Python `range` class proxied object */
+  range: any;
   /** Python `None` type proxied object */
   None: any;
   /** Python `Ellipsis` type proxied object */
   Ellipsis: any;
 
+  /**
+   * Registry of custom converters between JS and Python types.
+   * See `ConverterRegistry` for more info.
+   */
+  converters: ConverterRegistry = new ConverterRegistry();
+
+  /** Diagnostics of the references held by JS, see `PythonDebug`. */
+  debug: PythonDebug = debug;
+
+  /** Path and version of the Python library that was loaded. */
+  library: PythonLibrary = library;
+
   /** Shortcut to kw function (template string tag) */
   kw = kw;
 
   constructor() {
-    py.Py_Initialize();
+    // Conversions use its built-ins from now on
+    interpreter.python = this;
     this.builtins = this.import("builtins");
 
     this.int = this.builtins.int;
     this.float = this.builtins.float;
     this.str = this.builtins.str;
+    this.bytes = this.builtins.bytes;
+    this.bytearray = this.builtins.bytearray;
     this.list = this.builtins.list;
     this.dict = this.builtins.dict;
     this.None = this.builtins.None;
     this.bool = this.builtins.bool;
     this.set = this.builtins.set;
     this.tuple = this.builtins.tuple;
+    this.frozenset = this.builtins.frozenset;
+    this.complex = this.builtins.complex;
+    this.range = this.builtins.range;
     this.Ellipsis = this.builtins.Ellipsis;
 
     // Initialize arguments and executable path,
@@ -978,10 +3060,18 @@ export class Python {
     const sys = this.import("sys");
     const os = this.import("os");
 
-    sys.argv = [""];
+    if (ownsInterpreter) {
+      const { argv, isolated, pythonPath, venv } = takeConfig();
+      sys.argv = argv ?? [""];
+      // Python ignores it in isolated mode, like the PYTHONPATH variable
+      if (isolated) {
+        pythonPath?.forEach((path, i) => sys.path.insert(i, path));
+      }
 
-    if (Deno.build.os === "darwin") {
-      sys.executable = os.path.join(sys.exec_prefix, "bin", "python3");
+      // Otherwise, it is the one of the virtual environment
+      if (Deno.build.os === "darwin" && venv === undefined) {
+        sys.executable = os.path.join(sys.exec_prefix, "bin", "python3");
+      }
     }
   }
 
@@ -994,35 +3084,38 @@ export class Python {
     }
   }
 
+  /**
+   * Runs Python code like `run`, but on another thread, see
+   * `PyObject#callAsync`. Unlike `run`, errors are thrown as `PythonError`.
+   */
+  async runAsync(code: string): Promise<void> {
+    const main = this.import("__main__");
+    await this.builtins.exec[ProxiedPyObject].callAsync([
+      this.builtins.compile(code, "<string>", "exec"),
+      main.__dict__,
+    ]);
+  }
+
   /**
    * Runs Python script as a module and returns its module object,
    * for using its attributes, functions, classes, etc. from JavaScript.
    */
   runModule(code: string, name?: string): any {
+    using compiled = PyObject.from(
+      this.builtins.compile(code, name ?? "__main__", "exec"),
+    );
     const module = py.PyImport_ExecCodeModule(
       cstr(name ?? "__main__"),
-      PyObject.from(
-        this.builtins.compile(code, name ?? "__main__", "exec"),
-      )
-        .handle,
+      compiled.handle,
     );
-    if (module === null) {
-      maybeThrowError();
-      throw new EvalError("Failed to run python module");
-    }
-    return new PyObject(module)?.proxy;
+    return PyObject.adopt(module).proxy;
   }
 
   /**
    * Import a module as PyObject.
    */
   importObject(name: string): PyObject {
-    const mod = py.PyImport_ImportModule(cstr(name));
-    if (mod === null) {
-      maybeThrowError();
-      throw new TypeError(`Failed to import module ${name}`);
-    }
-    return new PyObject(mod);
+    return PyObject.adopt(py.PyImport_ImportModule(cstr(name)));
   }
 
   /**
@@ -1032,6 +3125,125 @@ export class Python {
     return this.importObject(name).proxy;
   }
 
+  /**
+   * Creates a Python `memoryview` sharing memory with the given TypedArray,
+   * without copying. It can be passed to functions like `numpy.asarray` or
+   * `numpy.frombuffer` to get a NumPy array viewing the same memory.
+   *
+   * The TypedArray is kept alive for as long as the memoryview exists. Note that
+   * views derived from it (such as slices) do not keep it alive by themselves.
+   *
+   * @param array TypedArray to share with Python
+   * @param shape Shape of the memoryview, one-dimensional by default
+   */
+  fromTypedArray(array: TypedArray, shape?: number[]): PyObject {
+    const format = formatForTypedArray(array);
+    if (array.length === 0) {
+      // memoryview refuses to cast to a shape with zeros, and there is no
+      // memory to share anyway, so an empty one-dimensional view is returned
+      if (shape !== undefined && shape.length !== 1) {
+        throw new TypeError(
+          `Cannot create an empty memoryview of shape [${shape.join(", ")}]`,
+        );
+      }
+      const { memoryview, bytearray } = this.builtins;
+      return memoryview(bytearray()).cast(format)[ProxiedPyObject];
+    }
+
+    const pointer = Deno.UnsafePointer.of(array);
+    // PyBUF_WRITE
+    const memory = py.PyMemoryView_FromMemory(
+      pointer,
+      BigInt(array.byteLength),
+      0x200,
+    );
+
+    const view = new PyObject(memory).proxy
+      .cast(format, shape ?? [array.length])[ProxiedPyObject] as PyObject;
+    py.Py_DecRef(memory);
+
+    const id = Number(Deno.UnsafePointer.value(view.handle));
+    pinnedBuffers.set(id, array);
+    this.import("weakref").finalize(view, unpinBuffer, id);
+    return view;
+  }
+
+  /**
+   * Exposes a JS object (or function) to Python by reference, instead of
+   * converting it. Python code gets a live proxy of type `JSObject` that
+   * forwards attribute access, item access, calls, `len`, `in` and iteration
+   * back to the JS object, so methods, prototypes and mutations are kept.
+   *
+   * Values Python gets out of the proxy are converted as usual if they are
+   * primitives, while objects and functions are exposed by reference as
+   * well. Functions are called with their object as `this`, and keyword
+   * arguments, if any, are passed as an object after the positional ones.
+   *
+   * When the proxy comes back to JS, such as from `valueOf` or as an argument
+   * of a callback, it is the original JS object again.
+   *
+   * Example:
+   * ```ts
+   * const api = {
+   *   greeting: "Hello",
+   *   greet(name: string) {
+   *     return `${this.greeting}, ${name}!`;
+   *   },
+   * };
+   * const { run } = python.runModule(`
+   * def run(api):
+   *   return api.greet("world")
+   * `);
+   * run(python.ref(api)).valueOf(); // "Hello, world!"
+   * ```
+   */
+  ref(value: object): PyObject {
+    return createRef(value);
+  }
+
+  /**
+   * Runs the function, then releases the Python objects (see
+   * `PyObject#[Symbol.dispose]`) created while it ran, even if it throws.
+   * The object it returns, if it returns a PyObject or a proxy, is kept and
+   * belongs to the enclosing scope instead, if any.
+   *
+   * Example:
+   * ```ts
+   * const total = python.scope(() => {
+   *   const np = python.import("numpy");
+   *   return np.arange(1_000_000).sum().valueOf();
+   * });
+   * ```
+   *
+   * The function must be synchronous, and other objects created in it must
+   * not be used once it returns, convert them using `valueOf` instead.
+   * Objects created by JS callbacks that Python calls meanwhile are not part
+   * of the scope.
+   */
+  scope<T>(fn: () => T): T {
+    const owned = new Set<PyObject>();
+    let kept: PyObject | undefined;
+    scopes.push(owned);
+    try {
+      const result = fn();
+      if (result instanceof Promise) {
+        throw new TypeError("Scopes can only run synchronous functions");
+      }
+      kept = result instanceof PyObject
+        ? result
+        : (result as any)?.[ProxiedPyObject];
+      return result;
+    } finally {
+      scopes.pop();
+      if (kept !== undefined && owned.delete(kept)) {
+        scopes.at(-1)?.add(kept);
+      }
+      for (const object of owned) {
+        object[Symbol.dispose]();
+      }
+    }
+  }
+
   /** Shortcut to create Callback instance. */
   callback(cb: PythonJSCallback): Callback {
     return new Callback(cb);
@@ -1057,23 +3269,1209 @@ export class Python {
    */
   instanceMethod(cb: PythonJSCallback): [PyObject, Callback] {
     const pythonCb = python.callback(cb);
-    const method = new PyObject(
-      py.PyInstanceMethod_New(
-        PyObject.from(pythonCb).handle,
-      ),
-    );
+    using fn = PyObject.from(pythonCb);
+    const method = PyObject.adopt(py.PyInstanceMethod_New(fn.handle));
     return [method, pythonCb];
   }
-}
 
-/**
- * Python interface.
- *
+  /**
+   * Creates a new Python class whose methods are implemented in JS.
+   *
+   * Example:
+   * ```ts
+   * const Counter = python.defineClass("Counter", {
+   *   methods: {
+   *     __init__: (_, self, start = 0) => {
+   *       self.count = start;
+   *     },
+   *     increment: (_, self) => {
+   *       self.count = self.count.valueOf() + 1;
+   *     },
+   *   },
+   *   properties: {
+   *     double: { get: (self) => self.count.valueOf() * 2 },
+   *   },
+   * });
+   *
+   * const counter = Counter.type(1);
+   * counter.increment();
+   * counter.double.valueOf(); // 4
+   *
+   * // When done with the class
+   * Counter.destroy();
+   * ```
+   */
+  defineClass(name: string, definition: ClassDefinition = {}): PyClass {
+    const callbacks: Callback[] = [];
+    const callable = (fn: PythonJSCallback) => {
+      const callback = new Callback(fn);
+      callbacks.push(callback);
+      return PyObject.from(callback);
+    };
+
+    const dict: Record<string, PythonConvertible> = {
+      ...definition.attributes,
+      __module__: definition.module ?? "__main__",
+    };
+    if (definition.doc !== undefined) {
+      dict.__doc__ = definition.doc;
+    }
+    for (const [key, fn] of Object.entries(definition.methods ?? {})) {
+      using method = callable(fn);
+      dict[key] = PyObject.adopt(py.PyInstanceMethod_New(method.handle));
+    }
+    for (const [key, fn] of Object.entries(definition.staticMethods ?? {})) {
+      using method = callable(fn);
+      dict[key] = this.builtins.staticmethod(method);
+    }
+    for (const [key, fn] of Object.entries(definition.classMethods ?? {})) {
+      using method = callable(fn);
+      dict[key] = this.builtins.classmethod(method);
+    }
+    for (
+      const [key, { get, set }] of Object.entries(definition.properties ?? {})
+    ) {
+      using getter = callable((_, self) => get(self));
+      using setter = set && callable((_, self, value) => set(self, value));
+      dict[key] = this.builtins.property(getter, setter);
+    }
+
+    try {
+      const type = this.builtins.type(
+        name,
+        this.tuple(definition.bases ?? []),
+        dict,
+      );
+      return new PyClass(type, callbacks);
+    } catch (e) {
+      for (const callback of callbacks) {
+        callback.destroy();
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Creates a sub-interpreter, isolated from the others: it has its own
+   * built-ins, `sys.modules` and `__main__` module, so that code run in it
+   * does not affect code run elsewhere. See `SubInterpreter` for how to use
+   * it.
+   *
+   * Example:
+   * ```ts
+   * const interpreter = python.createInterpreter();
+   * interpreter.run("import sys; sys.path.append('plugins')");
+   * const answer = interpreter.enter((python) => {
+   *   return python.runModule("answer = 42").answer.valueOf();
+   * });
+   * interpreter.close();
+   * ```
+   */
+  createInterpreter(options: InterpreterOptions = {}): SubInterpreter {
+    if (options.ownGil) {
+      const { minor } = importModule("sys").version_info;
+      // The symbol is missing before 3.12, and in Bun
+      if (minor.valueOf() < 12 || !py.Py_NewInterpreterFromConfig) {
+        throw new Error(
+          "Sub-interpreters with a GIL of their own require Python 3.12+",
+        );
+      }
+    }
+
+    let error: string | undefined;
+    const threadState = newInterpreter(() => {
+      if (!options.ownGil) {
+        return py.Py_NewInterpreter();
+      }
+
+      // https://docs.python.org/3/c-api/init.html#c.PyInterpreterConfig
+      // use_main_obmalloc, allow_fork, allow_exec, allow_threads,
+      // allow_daemon_threads, check_multi_interp_extensions and gil
+      const config = new Int32Array([0, 0, 0, 1, 0, 1, 2]);
+      const threadState = new BigUint64Array(1);
+      error = statusError(
+        py.Py_NewInterpreterFromConfig!(threadState, config),
+      );
+      return error === undefined
+        ? Deno.UnsafePointer.create(threadState[0])
+        : null;
+    });
+
+    if (threadState === null) {
+      throw new Error(
+        `Failed to create sub-interpreter${error ? `: ${error}` : ""}`,
+      );
+    }
+    return new SubInterpreter(threadState);
+  }
+
+  /**
+   * Shuts Python down, finalizing the interpreter: `atexit` handlers run,
+   * buffered data (such as the one of `logging` handlers) is flushed, and
+   * modules are cleaned up. Waits for calls running on other threads (see
+   * `PyObject#callAsync`) and for Python threads to finish first, as Python
+   * does on exit.
+   *
+   * Afterwards, Python objects can no longer be used, which throws an error,
+   * and all callbacks are destroyed. Sub-interpreters are closed, and pending
+   * awaitables are rejected.
+   *
+   * Does nothing if Python has already been shut down. It can also be done
+   * using `await using`:
+   *
+   * ```ts
+   * await using _ = python;
+   * python.import("logging").warning("flushed on exit");
+   * ```
+   */
+  async shutdown(): Promise<void> {
+    if (isFinalized()) {
+      return;
+    }
+    if (this !== python) {
+      throw new Error("Sub-interpreters are closed rather than shut down");
+    }
+    if (!ownsInterpreter) {
+      throw new Error(
+        "Python can only be shut down by the thread which initialized it",
+      );
+    }
+
+    await Promise.allSettled(pendingCalls);
+    // Joined from another thread, so that those can still call JS meanwhile
+    await bridge().join_threads[ProxiedPyObject].callAsync();
+
+    for (const interpreter of subInterpreters) {
+      interpreter.close();
+    }
+    stopEventLoop();
+    const flushed = finalize();
+
+    for (const callback of Object.values(callbacks)) {
+      callback.destroy();
+    }
+    jsObjects.clear();
+    jsIterators.clear();
+    pinnedBuffers.clear();
+
+    if (!flushed) {
+      throw new Error("Failed to flush buffered data while shutting down");
+    }
+  }
+
+  /** Shuts Python down, see `shutdown`. */
+  [Symbol.asyncDispose](): Promise<void> {
+    return this.shutdown();
+  }
+}
+
+/**
+ * Options of `Python#createInterpreter`.
+ */
+export interface InterpreterOptions {
+  /**
+   * Whether the sub-interpreter has a GIL of its own, rather than sharing it
+   * with the main interpreter (Python 3.12+). Such interpreters are more
+   * strictly isolated: they can't fork, start daemon threads or import
+   * extension modules that do not support sub-interpreters.
+   */
+  ownGil?: boolean;
+}
+
+/**
+ * Sub-interpreter, created using `Python#createInterpreter`.
+ *
+ * Python objects belong to the interpreter they were created in, so objects
+ * of a sub-interpreter can only be used within `enter`, and must not be
+ * passed to other interpreters (including the main one). Convert them to JS
+ * values using `valueOf` instead.
+ *
+ * Awaiting Python awaitables, `PyObject#callAsync` and calling JS callbacks
+ * from Python threads are only supported in the main interpreter.
+ */
+export class SubInterpreter {
+  #threadState: Deno.PointerValue;
+  #state: InterpreterState;
+
+  constructor(threadState: Deno.PointerValue) {
+    this.#threadState = threadState;
+    subInterpreters.add(this);
+    const release = (handle: Deno.PointerValue) => {
+      // Its objects are gone along with it once closed
+      if (this.#threadState !== null) {
+        withThreadState(this.#threadState, () => py.Py_DecRef(handle));
+      }
+    };
+    this.#state = {
+      release,
+      registry: new FinalizationRegistry(release),
+      modules: {},
+      types: {},
+      functions: new WeakMap(),
+      errorClasses: new Map(),
+    };
+  }
+
+  /** Whether the sub-interpreter has been closed. */
+  get closed(): boolean {
+    return this.#threadState === null;
+  }
+
+  /**
+   * Runs the given function in the sub-interpreter, passing it the `Python`
+   * interface of the sub-interpreter, and returns its result.
+   */
+  enter<T>(fn: (python: Python) => T): T {
+    if (this.#threadState === null) {
+      throw new Error("Sub-interpreter is closed");
+    }
+    const outer = interpreter;
+    return withThreadState(this.#threadState, () => {
+      interpreter = this.#state;
+      try {
+        return fn(this.#state.python ?? unscoped(() => new Python()));
+      } finally {
+        interpreter = outer;
+      }
+    });
+  }
+
+  /**
+   * Runs Python script from the given string in the sub-interpreter, see
+   * `Python#run`.
+   */
+  run(code: string): void {
+    this.enter((python) => python.run(code));
+  }
+
+  /**
+   * Ends the sub-interpreter, freeing all of its objects. Does nothing if it
+   * is already closed.
+   */
+  close() {
+    if (this.#threadState === null) {
+      return;
+    }
+    if (interpreter === this.#state) {
+      throw new Error("Cannot close a sub-interpreter from within itself");
+    }
+    endInterpreter(this.#threadState);
+    this.#threadState = null;
+    subInterpreters.delete(this);
+  }
+}
+
+/**
+ * Python interface.
+ *
  * Most of the time, you will use `import` on this object,
  * and also make use of some common built-ins attached to
  * this object, such as `str`, `int`, `tuple`, etc.
  */
-export const python: Python = new Python();
+export const python: Python = (() => {
+  ownsInterpreter = initialize(() => initializeInterpreter(takeConfig()));
+  return new Python();
+})();
+defineBuiltinErrors();
+
+/**
+ * Initializes the interpreter with the given configuration, see `configure`.
+ * The `Python` constructor applies the rest of it (`argv`, and `pythonPath`
+ * in isolated mode).
+ */
+function initializeInterpreter(config: PythonConfig) {
+  // Command line options, which Python parses into its configuration, as
+  // the layout of PyConfig differs between versions
+  const options: string[] = [];
+  if (config.isolated) {
+    options.push("-I");
+  }
+  if (config.noSite) {
+    options.push("-S");
+  }
+  if (config.optimizationLevel) {
+    options.push("-" + "O".repeat(config.optimizationLevel));
+  }
+  if (config.utf8Mode !== undefined) {
+    options.push("-X", `utf8=${Number(config.utf8Mode)}`);
+  }
+  for (const [name, value] of Object.entries(config.xOptions ?? {})) {
+    if (value !== false) {
+      options.push("-X", value === true ? name : `${name}=${value}`);
+    }
+  }
+
+  // Paths of PyConfig, set as is
+  const paths: Record<string, string | undefined> = {
+    home: config.home,
+    // Like the PYTHONPATH variable, so it is ignored in isolated mode
+    pythonpath_env: config.isolated
+      ? undefined
+      : config.pythonPath?.join(Deno.build.os === "windows" ? ";" : ":"),
+  };
+
+  if (
+    options.length === 0 && config.venv === undefined &&
+    Object.values(paths).every((path) => path === undefined)
+  ) {
+    py.Py_Initialize();
+    return;
+  }
+  if ("Bun" in globalThis) {
+    throw new Error("Configuring Python is not supported in Bun");
+  }
+
+  // The program name, which Python finds the virtual environment from
+  const executable = config.venv === undefined
+    ? ""
+    : Deno.build.os === "windows"
+    ? `${config.venv}\\Scripts\\python.exe`
+    : `${config.venv}/bin/python`;
+  const argv = [executable, ...options].map(cstr);
+  const pointers = new BigUint64Array(
+    argv.map((arg) =>
+      BigInt(Deno.UnsafePointer.value(Deno.UnsafePointer.of(arg)))
+    ),
+  );
+
+  if (py.PyInitConfig_Create !== null) {
+    initializeFromInitConfig(pointers, paths);
+    return;
+  }
+
+  // Larger than PyConfig in any supported version
+  const pyConfig = new Uint8Array(4096);
+  py.PyConfig_InitPythonConfig(pyConfig);
+  try {
+    let error = statusError(
+      py.PyConfig_SetBytesArgv(pyConfig, argv.length, pointers),
+    );
+    for (const [name, value] of Object.entries(paths)) {
+      if (value !== undefined && error === undefined) {
+        const offset = pyConfigOffset(name);
+        error = statusError(
+          py.PyConfig_SetString(
+            pyConfig,
+            pyConfig.subarray(offset),
+            wstr(value),
+          ),
+        );
+      }
+    }
+    error ??= statusError(py.Py_InitializeFromConfig(pyConfig));
+    if (error !== undefined) {
+      throw new Error(`Failed to initialize Python: ${error}`);
+    }
+  } finally {
+    py.PyConfig_Clear(pyConfig);
+  }
+}
+
+/**
+ * Returns the offset of a path in PyConfig, for versions of Python without
+ * the PyInitConfig API.
+ */
+function pyConfigOffset(name: string): number {
+  // Offsets of `pythonpath_env` by minor version, which `home` follows, as
+  // `unsigned long` and the fields only Windows has change them
+  const offsets: Record<number, number> = Deno.build.os === "windows"
+    ? { 8: 232, 9: 232, 10: 256, 11: 280, 12: 280, 13: 288 }
+    : { 8: 232, 9: 232, 10: 248, 11: 272, 12: 280, 13: 288 };
+  const offset = offsets[Number(library.version.split(".")[1])];
+  if (offset === undefined) {
+    throw new Error(
+      `Setting ${name} is not supported by Python ${library.version}`,
+    );
+  }
+  return name === "home" ? offset + 8 : offset;
+}
+
+/**
+ * Initializes the interpreter using the PyInitConfig API of Python 3.14+,
+ * which sets the configuration by option names, with the given command line
+ * and paths.
+ */
+function initializeFromInitConfig(
+  argv: BigUint64Array,
+  paths: Record<string, string | undefined>,
+) {
+  const config = py.PyInitConfig_Create!();
+  if (config === null) {
+    throw new Error("Failed to initialize Python: out of memory");
+  }
+  try {
+    // It starts from the isolated configuration, instead of the Python one
+    // PyConfig_InitPythonConfig gives
+    const defaults = {
+      isolated: 0,
+      use_environment: 1,
+      user_site_directory: 1,
+      safe_path: 0,
+      install_signal_handlers: 1,
+      pathconfig_warnings: 1,
+      configure_c_stdio: 1,
+      parse_argv: 1,
+    };
+    let failed = false;
+    for (const [name, value] of Object.entries(defaults)) {
+      failed ||= py.PyInitConfig_SetInt!(config, cstr(name), BigInt(value)) !==
+        0;
+    }
+    failed ||= py.PyInitConfig_SetStrList!(
+      config,
+      cstr("argv"),
+      BigInt(argv.length),
+      argv,
+    ) !== 0;
+    for (const [name, value] of Object.entries(paths)) {
+      if (value !== undefined) {
+        failed ||= py.PyInitConfig_SetStr!(config, cstr(name), cstr(value)) !==
+          0;
+      }
+    }
+    failed ||= py.Py_InitializeFromInitConfig!(config) !== 0;
+    if (failed) {
+      const message = new BigUint64Array(1);
+      py.PyInitConfig_GetError!(config, message);
+      const pointer = Deno.UnsafePointer.create(message[0]);
+      throw new Error(
+        `Failed to initialize Python: ${
+          pointer === null
+            ? "unknown error"
+            : Deno.UnsafePointerView.getCString(pointer)
+        }`,
+      );
+    }
+  } finally {
+    py.PyInitConfig_Free!(config);
+  }
+}
+
+/**
+ * Returns the error message of a `PyStatus` returned by the initialization
+ * API, or undefined if it is not an error.
+ */
+function statusError(status: Uint8Array): string | undefined {
+  const view = new DataView(status.buffer, status.byteOffset);
+  // _PyStatus_TYPE_OK
+  if (view.getInt32(0, LITTLE_ENDIAN) === 0) {
+    return undefined;
+  }
+  const message = Deno.UnsafePointer.create(
+    view.getBigUint64(16, LITTLE_ENDIAN),
+  );
+  return message === null
+    ? "unknown error"
+    : Deno.UnsafePointerView.getCString(message);
+}
+
+/**
+ * Checks if the error is a Python exception of the given type.
+ */
+function isPythonException(error: unknown, type: PythonConvertible): boolean {
+  if (!(error instanceof PythonError) || error.type.handle === null) {
+    return false;
+  }
+  using pyType = PyObject.from(type);
+  const matches = py.PyErr_GivenExceptionMatches(
+    error.type.handle,
+    pyType.handle,
+  );
+  return matches !== 0;
+}
+
+/**
+ * Returns the value of a `StopIteration`, which holds what was returned
+ * from a generator.
+ */
+function stopIterationValue(error: PythonError): PyObject {
+  if (error.value.handle === null) {
+    return PyObject.from(null);
+  } else if (error.value.isInstance(currentPython().builtins.StopIteration)) {
+    return error.value.getAttr("value");
+  } else {
+    // The exception may not have been normalized, then this is the value
+    return error.value;
+  }
+}
+
+/**
+ * Converts a JS error into a Python exception, to be raised in Python code.
+ *
+ * Errors of Python exceptions are raised as is, others as a `JSError` of the
+ * bridge (a `RuntimeError`) referring to them, or one of its subclasses which
+ * are also `TypeError`s, `ValueError`s (for `RangeError`s) or `KeyError`s
+ * (for `PythonKeyError`s). They are thrown back as is once out of Python.
+ */
+function toPythonException(error: unknown): PyObject {
+  if (error instanceof PythonError) {
+    return error.value.handle === null ? error.type : error.value;
+  }
+  if (error instanceof PythonKeyError) {
+    return bridge().JSKeyError(error.key, toRefValue(error))[ProxiedPyObject];
+  }
+  const message = error instanceof Error
+    ? `${error.name}: ${error.message}`
+    : String(error);
+  const type = error instanceof TypeError
+    ? "JSTypeError"
+    : error instanceof RangeError
+    ? "JSRangeError"
+    : "JSError";
+  return bridge()[type](message, toRefValue(error))[ProxiedPyObject];
+}
+
+/**
+ * Returns the JS error a Python exception was raised for by
+ * `toPythonException`, if it was.
+ */
+function thrownError(exception: PyObject): { error: unknown } | undefined {
+  const type = loadedType(bridgeName(), "JSError");
+  if (type === undefined || !exception.isInstance(type)) {
+    return undefined;
+  }
+  return { error: exception.getAttr("error").valueOf() };
+}
+
+/**
+ * Returns the Python side of the bridge (see `src/bridge.ts`),
+ * loading it on first use.
+ */
+function bridge(): any {
+  if (interpreter.bridge === undefined) {
+    interpreter.bridge = unscoped(() =>
+      currentPython().runModule(BRIDGE_MODULE, bridgeName())
+    );
+    const module = interpreter.bridge[ProxiedPyObject] as PyObject;
+    // ctypes callbacks always run Python code in the main interpreter
+    if (interpreter === mainInterpreter) {
+      module.getAttr("set_dispatcher").call([
+        Deno.UnsafePointer.value(dispatcher.pointer),
+      ]);
+    }
+    module.setAttr("_js_iterator_next", iteratorNext);
+    module.setAttr("_js_async_iterator_next", asyncIteratorNext);
+    module.setAttr("_js_iterator_close", iteratorClose);
+    module.setAttr("_js_object", jsObjectOperation);
+    module.setAttr("_js_promise_then", promiseThen);
+  }
+  return interpreter.bridge;
+}
+
+/**
+ * Returns the name of the bridge module. JS threads sharing the interpreter
+ * each have their own, as it refers to their own callbacks.
+ */
+function bridgeName(): string {
+  return interpreter.bridgeName ??=
+    ownsInterpreter || interpreter !== mainInterpreter
+      ? "_deno_python"
+      : `_deno_python_${python.import("threading").get_ident()}`;
+}
+
+// Runs calls of JS callbacks made from other threads, see `js_function`. It
+// is only referenced while waiting for those threads, see `waitForThreads`,
+// as it would otherwise keep JS running forever.
+const dispatcher = new Deno.UnsafeCallback(
+  { parameters: ["pointer"], result: "void" },
+  (call) => {
+    new PyObject(call).getAttr("run").call();
+  },
+);
+
+/**
+ * Waits for the Python threads still running once JS has nothing left to do,
+ * as Python does before exiting, so that they can keep calling the JS
+ * functions they were given meanwhile.
+ */
+async function waitForThreads() {
+  dispatcher.ref();
+  try {
+    await bridge().join_threads[ProxiedPyObject].callAsync();
+  } finally {
+    dispatcher.unref();
+  }
+}
+
+// Bun has no such event, so it exits without waiting for them
+if (!("Bun" in globalThis)) {
+  addEventListener("beforeunload", (event) => {
+    // Threads can only call JS functions once the bridge is loaded
+    if (
+      ownsInterpreter && !isFinalized() && interpreter === mainInterpreter &&
+      interpreter.bridge !== undefined &&
+      bridge().running_threads().valueOf().length > 0
+    ) {
+      event.preventDefault();
+      waitForThreads();
+    }
+  });
+}
+
+// JS iterators passed to Python, by the id their Python iterator refers to
+const jsIterators = new Map<
+  number,
+  Iterator<unknown> | AsyncIterator<unknown>
+>();
+let nextIteratorId = 0;
+
+/**
+ * Keeps the JS iterator around until its Python iterator is done with it,
+ * returns its id.
+ */
+function registerIterator(
+  iterator: Iterator<unknown> | AsyncIterator<unknown>,
+): number {
+  const id = nextIteratorId++;
+  jsIterators.set(id, iterator);
+  return id;
+}
+
+// Pulls next value from a JS iterator for `JSIterator.__next__`
+const iteratorNext = new Callback((_, id: number) => {
+  const iterator = jsIterators.get(id) as Iterator<unknown> | undefined;
+  if (iterator === undefined) {
+    return [true, null];
+  }
+  const result = iterator.next();
+  if (result.done) {
+    jsIterators.delete(id);
+  }
+  return [result.done ?? false, result.value as PythonConvertible];
+});
+
+// Pulls next value from a JS async iterator for `JSAsyncIterator.__anext__`,
+// setting the result on the given asyncio future once it's there
+const asyncIteratorNext = new Callback((_, id: number, future: any) => {
+  const iterator = jsIterators.get(id) as AsyncIterator<unknown> | undefined;
+  if (iterator === undefined) {
+    settleFuture(future, Promise.resolve([true, null]));
+    return;
+  }
+  settleFuture(
+    future,
+    Promise.resolve(iterator.next()).then((result) => {
+      if (result.done) {
+        jsIterators.delete(id);
+      }
+      return [result.done ?? false, result.value];
+    }),
+  );
+});
+
+// Waits for a JS promise for `JSPromise.__await__`, setting its value on the
+// given asyncio future once it's settled
+const promiseThen = new Callback((_, id: number, future: any) => {
+  settleFuture(future, jsObjects.get(id)?.value);
+});
+
+/**
+ * Settles an asyncio future with the outcome of a JS promise, unless it was
+ * cancelled meanwhile.
+ */
+function settleFuture(future: any, promise: PromiseLike<unknown>) {
+  const pending = PyObject.from(future).proxy;
+  const settle = (callback: () => void) => {
+    if (!pending.done().valueOf()) {
+      try {
+        callback();
+      } catch (error) {
+        pending.set_exception(toPythonException(error));
+      }
+      // Lets the event loop run the code waiting on the future
+      pumpEventLoop();
+    }
+  };
+  promise.then(
+    (value) => settle(() => pending.set_result(value)),
+    (error) => settle(() => pending.set_exception(toPythonException(error))),
+  );
+}
+
+// Lets go of a JS iterator once its Python iterator is finalized,
+// letting the JS iterator clean up if it was not exhausted
+const iteratorClose = new Callback((_, id: number) => {
+  const iterator = jsIterators.get(id);
+  if (iterator !== undefined) {
+    jsIterators.delete(id);
+    const result = iterator.return?.();
+    if (result instanceof Promise) {
+      result.catch(() => {});
+    }
+  }
+});
+
+// JS objects exposed to Python by reference, by the id their
+// `JSObject` (or `JSPromise`) refers to
+const jsObjects = new Map<number, { value: any; thisArg?: unknown }>();
+let nextObjectId = 0;
+
+/**
+ * Keeps the JS value around until its Python object releases it,
+ * returns its id.
+ */
+function registerObject(value: object, thisArg?: unknown): number {
+  const id = nextObjectId++;
+  jsObjects.set(id, { value, thisArg });
+  return id;
+}
+
+/**
+ * Creates a `JSObject` proxy referring to the given JS value. For functions,
+ * `thisArg` is used as `this` when they are called.
+ */
+function createRef(value: object, thisArg?: unknown): PyObject {
+  return bridge().JSObject(registerObject(value, thisArg))[ProxiedPyObject];
+}
+
+/**
+ * Converts a value for Python code using a `JSObject`: primitives are
+ * converted, while objects and functions are exposed by reference.
+ */
+function toRefValue(value: unknown, thisArg?: unknown): PyObject {
+  if (
+    (typeof value === "object" && value !== null &&
+      !(value instanceof PyObject) && !(ProxiedPyObject in value)) ||
+    (typeof value === "function" && !(ProxiedPyObject in value))
+  ) {
+    return createRef(value, thisArg);
+  }
+  return PyObject.from(value as PythonConvertible);
+}
+
+// Performs operations of `JSObject` on the JS object it refers to
+const jsObjectOperation = new Callback(
+  (_, operation: string, id: number, ...args: any[]) => {
+    if (operation === "release") {
+      jsObjects.delete(id);
+      return;
+    }
+
+    const { value: target, thisArg } = jsObjects.get(id)!;
+    switch (operation) {
+      case "get": {
+        const [name] = args;
+        if (!(name in Object(target))) {
+          return [false, null];
+        }
+        return [true, toRefValue(target[name], target)];
+      }
+
+      case "set": {
+        const [name, value] = args;
+        target[name] = value;
+        return;
+      }
+
+      case "delete":
+        return args[0] in Object(target) && delete target[args[0]];
+
+      case "getitem": {
+        let [key] = args;
+        if (target instanceof Map) {
+          return target.has(key)
+            ? [true, toRefValue(target.get(key), target)]
+            : [false, null];
+        }
+        if (typeof key === "number" && key < 0 && "length" in target) {
+          key += target.length;
+        }
+        if (!(key in Object(target))) {
+          return [false, null];
+        }
+        return [true, toRefValue(target[key], target)];
+      }
+
+      case "setitem": {
+        const [key, value] = args;
+        if (target instanceof Map) {
+          target.set(key, value);
+        } else {
+          target[key] = value;
+        }
+        return;
+      }
+
+      case "delitem": {
+        const [key] = args;
+        if (target instanceof Map) {
+          return target.delete(key);
+        }
+        return key in Object(target) && delete target[key];
+      }
+
+      case "call": {
+        const [positional, named] = args as [any[], Map<string, any>];
+        if (named.size > 0) {
+          positional.push(Object.fromEntries(named));
+        }
+        return toRefValue(Reflect.apply(target, thisArg, positional));
+      }
+
+      case "len": {
+        if (target instanceof Map || target instanceof Set) {
+          return target.size;
+        }
+        const length = target.length;
+        return typeof length === "number" ? length : null;
+      }
+
+      case "contains": {
+        const [key] = args;
+        if (
+          target instanceof Map || target instanceof Set ||
+          target instanceof WeakMap || target instanceof WeakSet
+        ) {
+          return target.has(key);
+        } else if (Array.isArray(target) || typeof target === "string") {
+          return target.includes(key);
+        }
+        return key in Object(target);
+      }
+
+      case "iter": {
+        const iterator = Symbol.iterator in Object(target)
+          ? target[Symbol.iterator]()
+          : Object.keys(target)[Symbol.iterator]();
+        return (function* () {
+          for (const item of iterator) {
+            yield toRefValue(item);
+          }
+        })();
+      }
+
+      case "dir": {
+        const names = new Set<string>();
+        for (
+          let object = Object(target);
+          object !== null && object !== Object.prototype;
+          object = Object.getPrototypeOf(object)
+        ) {
+          for (const name of Object.getOwnPropertyNames(object)) {
+            names.add(name);
+          }
+        }
+        return [...names];
+      }
+
+      case "repr":
+        try {
+          return `<JSObject ${String(target)}>`;
+        } catch (_) {
+          return "<JSObject>";
+        }
+
+      default:
+        throw new TypeError(`Unknown JSObject operation: ${operation}`);
+    }
+  },
+);
+
+let asyncCallRunner:
+  | Deno.UnsafeFnPointer<
+    { parameters: ["pointer"]; result: "void"; nonblocking: true }
+  >
+  | undefined;
+
+// calls running on other threads, which shutting down waits for
+const pendingCalls = new Set<Promise<void>>();
+
+/**
+ * Runs an `AsyncCall` of the bridge on a native thread.
+ */
+function runOnThread(call: PyObject): Promise<void> {
+  mainInterpreterOnly("Running Python calls on other threads");
+  asyncCallRunner ??= new Deno.UnsafeFnPointer(
+    Deno.UnsafePointer.create(
+      bridge().run_async_call_address[ProxiedPyObject].asBigInt(),
+    )!,
+    { parameters: ["pointer"], result: "void", nonblocking: true },
+  );
+  const running = withoutGIL(() => asyncCallRunner!.call(call.handle));
+  pendingCalls.add(running);
+  return running.finally(() => pendingCalls.delete(running));
+}
+
+/**
+ * Throws if a sub-interpreter is in use, for features relying on the event
+ * loop or other threads, which can only use the main interpreter.
+ */
+function mainInterpreterOnly(feature: string) {
+  if (interpreter !== mainInterpreter) {
+    throw new Error(`${feature} is not supported in sub-interpreters`);
+  }
+}
+
+let eventLoop: any;
+// tasks being run on the event loop, along with their promise's resolvers
+const pendingTasks = new Map<PyObject, PromiseWithResolvers<PyObject>>();
+let pumping = false;
+// timer of the next iteration of the event loop, see `pumpEventLoop`
+let pumpTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Runs a Python awaitable on an asyncio event loop that is driven by the JS
+ * event loop, so neither blocks the other, and returns its result.
+ */
+function runAwaitable(awaitable: PyObject): Promise<PyObject> {
+  mainInterpreterOnly("Awaiting Python awaitables");
+  const asyncio = importModule("asyncio");
+  // Both are used until the task is done, even if the current scope ends
+  eventLoop ??= unscoped(() => asyncio.new_event_loop());
+  const task = unscoped(() =>
+    asyncio.ensure_future(awaitable, kw`loop=${eventLoop}`)[ProxiedPyObject]
+  ) as PyObject;
+  const resolvers = Promise.withResolvers<PyObject>();
+  pendingTasks.set(task, resolvers);
+  if (pumpTimer !== undefined) {
+    setTimerRef(pumpTimer, true);
+  }
+  pumpEventLoop();
+  return resolvers.promise;
+}
+
+/**
+ * Sets whether a timer keeps the process alive until it fires.
+ */
+function setTimerRef(timer: ReturnType<typeof setTimeout>, ref: boolean) {
+  if (typeof timer === "number") {
+    // Deno's timers are IDs
+    ref ? Deno.refTimer(timer) : Deno.unrefTimer(timer);
+  } else {
+    ref ? timer.ref() : timer.unref();
+  }
+}
+
+/**
+ * Keeps running iterations of the event loop from JS timers, for as long as
+ * there are tasks pending on it. Tasks waiting on I/O are polled, see `step`
+ * in the bridge.
+ *
+ * Only tasks awaited in JS keep the process alive: once the others are all
+ * that is left, like those Python code started in the background, the
+ * timers no longer do.
+ */
+function pumpEventLoop() {
+  if (pumping || eventLoop === undefined) {
+    return;
+  }
+  pumping = true;
+
+  const step = () => {
+    pumpTimer = undefined;
+    // seconds until the next iteration, or null if there is nothing to run
+    let delay: number | null = null;
+    try {
+      delay = bridge().step(eventLoop).valueOf();
+    } catch (error) {
+      for (const { reject } of pendingTasks.values()) {
+        reject(error);
+      }
+      pendingTasks.clear();
+    }
+
+    for (const [task, { resolve, reject }] of pendingTasks) {
+      if (task.proxy.done().valueOf()) {
+        pendingTasks.delete(task);
+        try {
+          resolve(task.getAttr("result").call());
+        } catch (error) {
+          reject(error);
+        }
+      }
+    }
+
+    if (pendingTasks.size === 0 && delay === null) {
+      pumping = false;
+    } else {
+      pumpTimer = setTimeout(step, (delay ?? 0) * 1000);
+      setTimerRef(pumpTimer, pendingTasks.size > 0);
+    }
+  };
+  setTimeout(step, 0);
+}
+
+/**
+ * Cancels the tasks pending on the event loop, rejecting their promises, and
+ * closes it.
+ */
+function stopEventLoop() {
+  if (eventLoop === undefined) {
+    return;
+  }
+  for (const [task, { reject }] of pendingTasks) {
+    task.proxy.cancel();
+    reject(new Error("Python has been shut down"));
+  }
+  pendingTasks.clear();
+  // Lets the cancelled tasks finish
+  bridge().step(eventLoop);
+  eventLoop.close();
+  eventLoop = undefined;
+}
+
+/**
+ * Runs the function without letting the current scope (see `Python#scope`)
+ * own the objects it creates, for those kept around by this module. They are
+ * not tracked either, see `PythonDebug`.
+ */
+function unscoped<T>(fn: () => T): T {
+  const tracking = trackingReferences;
+  scopes.push(undefined);
+  trackingReferences = false;
+  try {
+    return fn();
+  } finally {
+    scopes.pop();
+    trackingReferences = tracking;
+  }
+}
+
+/** Returns the lines of the JS stack trace of the code calling the bridge. */
+function jsStack(): string[] {
+  // Frames of the bridge are left out, so more of them are needed
+  const limit = Error.stackTraceLimit;
+  Error.stackTraceLimit = 50;
+  try {
+    const source = new URL(".", import.meta.url).href;
+    return new Error().stack!.split("\n").slice(1)
+      .filter((frame) => !frame.includes(source));
+  } finally {
+    Error.stackTraceLimit = limit;
+  }
+}
+
+/** Records where the object was created, see `PythonDebug`. */
+function trackReference(object: PyObject) {
+  // Raw calls, so that getting the name creates no tracked object
+  const type = py.PyObject_Type(object.handle);
+  const name = py.PyObject_GetAttrString(type, cstr("__qualname__"));
+  const ref = new WeakRef(object);
+  trackedObjects.set(ref, {
+    type: new PyObject(name).asString(),
+    stack: jsStack().join("\n"),
+  });
+  trackedRefs.set(object, ref);
+  trackingRegistry.register(object, ref, ref);
+  py.Py_DecRef(name);
+  py.Py_DecRef(type);
+}
+
+/**
+ * Returns the given module, importing it on first use.
+ */
+function importModule(name: string): any {
+  return interpreter.modules[name] ??= unscoped(() => python.import(name));
+}
+
+/**
+ * Returns the given type from a module only if the module has already been
+ * imported (by anyone), without importing it.
+ */
+function loadedType(module: string, name: string): PyObject | undefined {
+  const key = `${module}.${name}`;
+  const { modules, types } = interpreter;
+  if (key in types) {
+    return types[key];
+  }
+
+  if (!(module in modules)) {
+    const handle = py.PyDict_GetItemString(
+      py.PyImport_GetModuleDict(),
+      cstr(module),
+    );
+    if (handle === null) {
+      return undefined;
+    }
+    // sys.modules only holds a borrowed reference
+    modules[module] = unscoped(() => new PyObject(handle).owned.proxy);
+  }
+
+  return types[key] = unscoped(() => modules[module][name][ProxiedPyObject]);
+}
+
+// Lets go of the TypedArray pinned by `Python#fromTypedArray`
+const unpinBuffer = new Callback((_, id: number) => {
+  pinnedBuffers.delete(id);
+});
+
+/**
+ * Reads an array of `Py_ssize_t` values from given address.
+ */
+function readSizes(address: bigint, length: number): number[] {
+  const pointer = Deno.UnsafePointer.create(address);
+  if (pointer === null || length === 0) return [];
+  return Array.from(
+    new BigInt64Array(
+      Deno.UnsafePointerView.getArrayBuffer(pointer, length * 8),
+    ),
+    Number,
+  );
+}
+
+/**
+ * Returns the TypedArray constructor matching the given `struct` format
+ * of buffer items.
+ */
+function typedArrayForFormat(format: string, itemSize: number) {
+  let code = format;
+  if (/^[@=]/.test(code) || (/^</.test(code) && LITTLE_ENDIAN)) {
+    code = code.slice(1);
+  } else if (/^[>!]/.test(code) && !LITTLE_ENDIAN) {
+    code = code.slice(1);
+  }
+
+  if (/^[bhilqn]$/.test(code)) {
+    switch (itemSize) {
+      case 1:
+        return Int8Array;
+      case 2:
+        return Int16Array;
+      case 4:
+        return Int32Array;
+      case 8:
+        return BigInt64Array;
+    }
+  } else if (/^[BHILQN?]$/.test(code)) {
+    switch (itemSize) {
+      case 1:
+        return Uint8Array;
+      case 2:
+        return Uint16Array;
+      case 4:
+        return Uint32Array;
+      case 8:
+        return BigUint64Array;
+    }
+  } else if (code === "f" && itemSize === 4) {
+    return Float32Array;
+  } else if (code === "d" && itemSize === 8) {
+    return Float64Array;
+  } else if (code === "c") {
+    return Uint8Array;
+  }
+
+  throw new TypeError(`Unsupported buffer format: ${format}`);
+}
+
+/**
+ * Returns the `struct` format of items in the given TypedArray.
+ */
+function formatForTypedArray(array: TypedArray): string {
+  if (array instanceof Int8Array) return "b";
+  if (array instanceof Uint8Array || array instanceof Uint8ClampedArray) {
+    return "B";
+  }
+  if (array instanceof Int16Array) return "h";
+  if (array instanceof Uint16Array) return "H";
+  if (array instanceof Int32Array) return "i";
+  if (array instanceof Uint32Array) return "I";
+  if (array instanceof Float32Array) return "f";
+  if (array instanceof Float64Array) return "d";
+  if (array instanceof BigInt64Array) return "q";
+  if (array instanceof BigUint64Array) return "Q";
+  throw new TypeError(`Unsupported TypedArray: ${array}`);
+}
 
 /**
  * Returns true if the value can be converted into a Python slice or
@@ -1097,12 +4495,17 @@ function isSlice(value: unknown): boolean {
  */
 function toSlice(sliceList: string): PyObject {
   if (sliceList.includes(",")) {
-    const pySlicesHandle = sliceList.split(",").map(toSlice);
-    return python.tuple(pySlicesHandle)[ProxiedPyObject];
+    const slices = sliceList.split(",");
+    const tuple = py.PyTuple_New(slices.length);
+    slices.forEach((slice, i) => {
+      using item = toSlice(slice);
+      py.PyTuple_SetItem(tuple, i, item.owned.handle);
+    });
+    return PyObject.adopt(tuple);
   } else if (/^\s*-?\d+\s*$/.test(sliceList)) {
     return PyObject.from(parseInt(sliceList));
   } else if (/^\s*\.\.\.\s*$/.test(sliceList)) {
-    return PyObject.from(python.Ellipsis);
+    return PyObject.from(currentPython().Ellipsis);
   } else {
     const [start, stop, step] = sliceList
       .split(":")
@@ -1110,11 +4513,11 @@ function toSlice(sliceList: string): PyObject {
         bound,
       ) => (/^\s*-?\d+\s*$/.test(bound) ? parseInt(bound) : undefined));
 
-    const pySliceHandle = py.PySlice_New(
-      PyObject.from(start).handle,
-      PyObject.from(stop).handle,
-      PyObject.from(step).handle,
+    using pyStart = PyObject.from(start);
+    using pyStop = PyObject.from(stop);
+    using pyStep = PyObject.from(step);
+    return PyObject.adopt(
+      py.PySlice_New(pyStart.handle, pyStop.handle, pyStep.handle),
     );
-    return new PyObject(pySliceHandle);
   }
 }
@@ -4,6 +4,92 @@ export const SYMBOLS = {
     result: "void",
   },
 
+  PyConfig_InitPythonConfig: {
+    parameters: ["buffer"],
+    result: "void",
+  },
+
+  PyConfig_SetBytesArgv: {
+    parameters: ["buffer", "i32", "buffer"],
+    // PyStatus
+    result: { struct: ["i32", "pointer", "pointer", "i32"] },
+  },
+
+  PyConfig_Clear: {
+    parameters: ["buffer"],
+    result: "void",
+  },
+
+  Py_InitializeFromConfig: {
+    parameters: ["buffer"],
+    // PyStatus
+    result: { struct: ["i32", "pointer", "pointer", "i32"] },
+  },
+
+  PyConfig_SetString: {
+    parameters: ["buffer", "buffer", "buffer"], // config, wchar_t** field, value
+    // PyStatus
+    result: { struct: ["i32", "pointer", "pointer", "i32"] },
+  },
+
+  // Configuration by option names, since Python 3.14
+  PyInitConfig_Create: {
+    parameters: [],
+    result: "pointer",
+    optional: true,
+  },
+
+  PyInitConfig_Free: {
+    parameters: ["pointer"],
+    result: "void",
+    optional: true,
+  },
+
+  PyInitConfig_GetError: {
+    parameters: ["pointer", "buffer"], // config, const char** message
+    result: "i32",
+    optional: true,
+  },
+
+  PyInitConfig_SetInt: {
+    parameters: ["pointer", "buffer", "i64"],
+    result: "i32",
+    optional: true,
+  },
+
+  PyInitConfig_SetStr: {
+    parameters: ["pointer", "buffer", "buffer"],
+    result: "i32",
+    optional: true,
+  },
+
+  PyInitConfig_SetStrList: {
+    parameters: ["pointer", "buffer", "usize", "buffer"],
+    result: "i32",
+    optional: true,
+  },
+
+  Py_InitializeFromInitConfig: {
+    parameters: ["pointer"],
+    result: "i32",
+    optional: true,
+  },
+
+  Py_FinalizeEx: {
+    parameters: [],
+    result: "i32",
+  },
+
+  Py_GetVersion: {
+    parameters: [],
+    result: "pointer",
+  },
+
+  Py_IsInitialized: {
+    parameters: [],
+    result: "i32",
+  },
+
   Py_IncRef: {
     parameters: ["pointer"],
     result: "void",
@@ -39,6 +125,26 @@ export const SYMBOLS = {
     result: "void",
   },
 
+  PyErr_NormalizeException: {
+    parameters: ["buffer", "buffer", "buffer"],
+    result: "void",
+  },
+
+  PyErr_Restore: {
+    parameters: ["pointer", "pointer", "pointer"], // type, value, traceback
+    result: "void",
+  },
+
+  PyErr_GivenExceptionMatches: {
+    parameters: ["pointer", "pointer"], // given, exc
+    result: "i32",
+  },
+
+  PyErr_SetObject: {
+    parameters: ["pointer", "pointer"], // type, value
+    result: "void",
+  },
+
   PyErr_SetString: {
     parameters: ["pointer", "buffer"], // type, message
     result: "void",
@@ -115,6 +221,101 @@ export const SYMBOLS = {
     result: "i32",
   },
 
+  PyNumber_Add: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Subtract: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Multiply: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_MatrixMultiply: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_TrueDivide: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_FloorDivide: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Remainder: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_And: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Or: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Xor: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Lshift: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Rshift: {
+    parameters: ["pointer", "pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Power: {
+    parameters: ["pointer", "pointer", "pointer"], // base, exponent, modulo
+    result: "pointer",
+  },
+
+  PyNumber_Negative: {
+    parameters: ["pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Absolute: {
+    parameters: ["pointer"],
+    result: "pointer",
+  },
+
+  PyNumber_Invert: {
+    parameters: ["pointer"],
+    result: "pointer",
+  },
+
+  PySequence_Contains: {
+    parameters: ["pointer", "pointer"],
+    result: "i32",
+  },
+
+  PyObject_Size: {
+    parameters: ["pointer"],
+    result: "isize",
+  },
+
+  PyObject_Hash: {
+    parameters: ["pointer"],
+    result: "isize",
+  },
+
   PyDict_SetItem: {
     parameters: ["pointer", "pointer", "pointer"],
     result: "i32",
@@ -165,6 +366,26 @@ export const SYMBOLS = {
     result: "pointer",
   },
 
+  PyLong_FromLongLong: {
+    parameters: ["i64"],
+    result: "pointer",
+  },
+
+  PyLong_AsLongLongAndOverflow: {
+    parameters: ["pointer", "buffer"], // obj, int* overflow
+    result: "i64",
+  },
+
+  PyLong_FromString: {
+    parameters: ["buffer", "pointer", "i32"], // str, char** pend, base
+    result: "pointer",
+  },
+
+  PyNumber_ToBase: {
+    parameters: ["pointer", "i32"],
+    result: "pointer",
+  },
+
   PyLong_AsUnsignedLongMask: {
     parameters: ["pointer"],
     result: "u32",
@@ -175,6 +396,21 @@ export const SYMBOLS = {
     result: "pointer",
   },
 
+  PyComplex_FromDoubles: {
+    parameters: ["f64", "f64"],
+    result: "pointer",
+  },
+
+  PyComplex_RealAsDouble: {
+    parameters: ["pointer"],
+    result: "f64",
+  },
+
+  PyComplex_ImagAsDouble: {
+    parameters: ["pointer"],
+    result: "f64",
+  },
+
   PyUnicode_AsUTF8: {
     parameters: ["pointer"],
     result: "pointer",
@@ -185,6 +421,56 @@ export const SYMBOLS = {
     result: "pointer",
   },
 
+  PyBytes_FromStringAndSize: {
+    parameters: ["buffer", "isize"],
+    result: "pointer",
+  },
+
+  PyBytes_AsStringAndSize: {
+    parameters: ["pointer", "buffer", "buffer"], // obj, char** buffer, Py_ssize_t* length
+    result: "i32",
+  },
+
+  PyBytes_AsString: {
+    parameters: ["pointer"],
+    result: "pointer",
+  },
+
+  PyByteArray_FromStringAndSize: {
+    parameters: ["buffer", "isize"],
+    result: "pointer",
+  },
+
+  PyByteArray_AsString: {
+    parameters: ["pointer"],
+    result: "pointer",
+  },
+
+  PyByteArray_Size: {
+    parameters: ["pointer"],
+    result: "isize",
+  },
+
+  PyMemoryView_FromObject: {
+    parameters: ["pointer"],
+    result: "pointer",
+  },
+
+  PyObject_GetBuffer: {
+    parameters: ["pointer", "buffer", "i32"], // obj, Py_buffer* view, flags
+    result: "i32",
+  },
+
+  PyBuffer_Release: {
+    parameters: ["buffer"],
+    result: "void",
+  },
+
+  PyMemoryView_FromMemory: {
+    parameters: ["pointer", "isize", "i32"], // char* mem, size, flags
+    result: "pointer",
+  },
+
   PyList_Size: {
     parameters: ["pointer"],
     result: "i32",
@@ -225,6 +511,11 @@ export const SYMBOLS = {
     result: "i32",
   },
 
+  PyImport_GetModuleDict: {
+    parameters: [],
+    result: "pointer",
+  },
+
   PyImport_ExecCodeModule: {
     parameters: ["buffer", "pointer"],
     result: "pointer",
@@ -251,7 +542,7 @@ export const SYMBOLS = {
   },
 
   PyCFunction_NewEx: {
-    parameters: ["buffer", "pointer", "pointer"],
+    parameters: ["pointer", "pointer", "pointer"],
     result: "pointer",
   },
 
@@ -259,4 +550,149 @@ export const SYMBOLS = {
     parameters: ["pointer"],
     result: "pointer",
   },
+
+  PyEval_SaveThread: {
+    parameters: [],
+    result: "pointer",
+  },
+
+  PyEval_RestoreThread: {
+    parameters: ["pointer"],
+    result: "void",
+  },
+
+  PyGILState_Ensure: {
+    parameters: [],
+    result: "i32",
+  },
+
+  PyGILState_Release: {
+    parameters: ["i32"],
+    result: "void",
+  },
+
+  PyGILState_Check: {
+    parameters: [],
+    result: "i32",
+  },
+
+  PyThreadState_Get: {
+    parameters: [],
+    result: "pointer",
+  },
+
+  PyThreadState_Swap: {
+    parameters: ["pointer"],
+    result: "pointer",
+  },
+
+  Py_NewInterpreter: {
+    parameters: [],
+    result: "pointer",
+  },
+
+  // Python 3.12+
+  Py_NewInterpreterFromConfig: {
+    parameters: ["buffer", "buffer"],
+    // PyStatus
+    result: { struct: ["i32", "pointer", "pointer", "i32"] },
+    optional: true,
+  },
+
+  Py_EndInterpreter: {
+    parameters: ["pointer"],
+    result: "void",
+  },
 } as const;
+
+/**
+ * How the symbols that can fail report it, setting a Python exception:
+ *
+ * - `null`: by returning NULL.
+ * - `-1`: by returning -1.
+ * - `pending`: by returning NULL or -1 (all bits set when unsigned), which
+ *   is also a valid result, so it failed only if an exception is set then.
+ *
+ * The other ones can't fail, or report it otherwise.
+ */
+export const ERROR_RESULTS: {
+  [name in keyof typeof SYMBOLS]?: "null" | "-1" | "pending";
+} = {
+  PyImport_ImportModule: "null",
+  PyDict_New: "null",
+  PyDict_SetItemString: "-1",
+  PyObject_GetItem: "null",
+  PyObject_SetItem: "-1",
+  PyObject_DelItem: "-1",
+  PyObject_Call: "null",
+  PyObject_GetAttrString: "null",
+  PyObject_SetAttrString: "-1",
+  PySlice_New: "null",
+  PyTuple_New: "null",
+  PyTuple_SetItem: "-1",
+  PyObject_RichCompare: "null",
+  PyObject_RichCompareBool: "-1",
+  PyNumber_Add: "null",
+  PyNumber_Subtract: "null",
+  PyNumber_Multiply: "null",
+  PyNumber_MatrixMultiply: "null",
+  PyNumber_TrueDivide: "null",
+  PyNumber_FloorDivide: "null",
+  PyNumber_Remainder: "null",
+  PyNumber_And: "null",
+  PyNumber_Or: "null",
+  PyNumber_Xor: "null",
+  PyNumber_Lshift: "null",
+  PyNumber_Rshift: "null",
+  PyNumber_Power: "null",
+  PyNumber_Negative: "null",
+  PyNumber_Absolute: "null",
+  PyNumber_Invert: "null",
+  PySequence_Contains: "-1",
+  PyObject_Size: "-1",
+  PyObject_Hash: "-1",
+  PyDict_SetItem: "-1",
+  // NULL once exhausted too
+  PyIter_Next: "pending",
+  PyObject_GetIter: "null",
+  PyList_New: "null",
+  PyList_SetItem: "-1",
+  PyBool_FromLong: "null",
+  PyFloat_AsDouble: "pending",
+  PyFloat_FromDouble: "null",
+  PyLong_AsLong: "pending",
+  PyLong_FromLong: "null",
+  PyLong_FromLongLong: "null",
+  PyLong_AsLongLongAndOverflow: "pending",
+  PyLong_FromString: "null",
+  PyNumber_ToBase: "null",
+  PyLong_AsUnsignedLongMask: "pending",
+  PyLong_FromUnsignedLong: "null",
+  PyComplex_FromDoubles: "null",
+  PyComplex_RealAsDouble: "pending",
+  PyComplex_ImagAsDouble: "pending",
+  PyUnicode_AsUTF8: "null",
+  PyUnicode_DecodeUTF8: "null",
+  PyBytes_FromStringAndSize: "null",
+  PyBytes_AsStringAndSize: "-1",
+  PyBytes_AsString: "null",
+  PyByteArray_FromStringAndSize: "null",
+  PyByteArray_AsString: "null",
+  PyByteArray_Size: "-1",
+  PyMemoryView_FromObject: "null",
+  PyObject_GetBuffer: "-1",
+  PyMemoryView_FromMemory: "null",
+  PyList_Size: "-1",
+  PyList_GetItem: "null",
+  PyObject_Type: "null",
+  PyObject_Str: "null",
+  PyDict_Keys: "null",
+  PySet_New: "null",
+  PySet_Add: "-1",
+  PyImport_ExecCodeModule: "null",
+  PyObject_IsInstance: "-1",
+  PyTuple_Size: "-1",
+  PyTuple_GetItem: "null",
+  PyCFunction_NewEx: "null",
+  PyInstanceMethod_New: "null",
+};
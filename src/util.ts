@@ -39,6 +39,12 @@ export function postSetup(lib: string) {
   libdl.symbols.dlopen(cstr(lib), 0x00001 | 0x00100);
 }
 
+/**
+ * Whether the host stores multi-byte values in little endian order.
+ */
+export const LITTLE_ENDIAN =
+  new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
 /**
  * Encodes a C string.
  */
@@ -48,6 +54,23 @@ export function cstr(str: string): Uint8Array<ArrayBuffer> {
   return buf;
 }
 
+/**
+ * Encodes a wide C string (`wchar_t*`), which is UTF-16 on Windows and
+ * UTF-32 elsewhere.
+ */
+export function wstr(str: string): Uint8Array<ArrayBuffer> {
+  if (Deno.build.os === "windows") {
+    const units = new Uint16Array(str.length + 1);
+    for (let i = 0; i < str.length; i++) {
+      units[i] = str.charCodeAt(i);
+    }
+    return new Uint8Array(units.buffer);
+  }
+  // Iterating strings yields whole code points
+  const points = Uint32Array.from(str + "\0", (c) => c.codePointAt(0)!);
+  return new Uint8Array(points.buffer);
+}
+
 /**
  * Regular Expression used to test if a string is a `proper_slice`.
  *
@@ -19,11 +19,24 @@ export function assertEquals<T>(actual: T, expected: T) {
   }
 }
 
-export function assertThrows(fn: () => void) {
+// Returns the error that was thrown
+// deno-lint-ignore no-explicit-any
+export function assertThrows(fn: () => unknown): any {
   try {
     fn();
-  } catch (_e) {
-    return;
+  } catch (error) {
+    return error;
   }
   throw new Error("Expected exception");
 }
+
+// Returns the reason of the rejection
+// deno-lint-ignore no-explicit-any
+export async function assertRejects(fn: () => Promise<unknown>): Promise<any> {
+  try {
+    await fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected rejection");
+}
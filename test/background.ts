@@ -0,0 +1,15 @@
+// Script used by the "awaitables" test, leaving a task running on the event
+// loop once JS is done
+import { python } from "../mod.ts";
+
+const { start } = python.runModule(
+  `
+import asyncio
+
+async def start():
+  asyncio.get_running_loop().create_task(asyncio.sleep(3600))
+  return "started"
+  `,
+  "background_test.py",
+);
+console.log((await start().toPromise()).valueOf());
@@ -0,0 +1,21 @@
+// Script used by the "configuration" test, initializing Python with the
+// configuration given as its argument and printing the resulting settings
+import { configure } from "../src/config.ts";
+
+configure(JSON.parse(Deno.args[0]));
+const { python } = await import("../mod.ts");
+
+const sys = python.import("sys");
+console.log(JSON.stringify({
+  library: python.library.path,
+  prefix: sys.prefix.valueOf(),
+  argv: sys.argv.valueOf(),
+  path: sys.path.valueOf(),
+  isolated: sys.flags.isolated.valueOf(),
+  noSite: sys.flags.no_site.valueOf(),
+  optimize: sys.flags.optimize.valueOf(),
+  utf8Mode: sys.flags.utf8_mode.valueOf(),
+  devMode: sys.flags.dev_mode.valueOf(),
+  // Set by the sitecustomize module of the "configuration" test, if found
+  customized: sys.__dict__.get("configuration_test", false).valueOf(),
+}));
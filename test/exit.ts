@@ -0,0 +1,17 @@
+// Script used by the "exit" test, leaving a Python thread which calls JS
+// once JS is done
+import { python } from "../mod.ts";
+
+const { start } = python.runModule(
+  `
+import threading, time
+
+def start(f):
+  def run():
+    time.sleep(0.05)
+    print("thread", f())
+  threading.Thread(target=run).start()
+  `,
+  "exit_test.py",
+);
+start(() => "called JS");
@@ -0,0 +1,50 @@
+// Script used by the "shutdown" test, shutting Python down while it has
+// buffered output, a thread calling JS, objects still in use, and a worker
+// sharing it
+import { ProxiedPyObject, python } from "../mod.ts";
+
+const { start } = python.runModule(
+  `
+import atexit, logging.handlers, sys, threading, time
+
+handler = logging.handlers.MemoryHandler(
+  100, target=logging.StreamHandler(sys.stdout)
+)
+logging.getLogger().addHandler(handler)
+logging.getLogger().warning("buffered log")
+atexit.register(print, "atexit handler")
+
+def start(f):
+  def run():
+    time.sleep(0.05)
+    print("thread", f())
+  threading.Thread(target=run).start()
+  `,
+  "shutdown_test.py",
+);
+start(python.callback(() => "called JS"));
+const list = python.list([1, 2]);
+const interpreter = python.createInterpreter();
+const sleeping = python.import("time").sleep[ProxiedPyObject].callAsync([0.05]);
+const worker = new Worker(new URL("./worker.ts", import.meta.url), {
+  type: "module",
+});
+// Runs Python code in the worker, resolving to its result or error message
+const inWorker = () =>
+  new Promise((resolve) => {
+    worker.onmessage = (event) => resolve(event.data);
+    worker.postMessage("__name__");
+  });
+await inWorker();
+
+await python.shutdown();
+console.log("sub-interpreter closed", interpreter.closed);
+await sleeping;
+try {
+  list.valueOf();
+} catch (error) {
+  console.log((error as Error).message);
+}
+console.log("worker:", await inWorker());
+worker.terminate();
+await python.shutdown();
@@ -1,12 +1,27 @@
-import { assert, assertEquals, assertThrows } from "./asserts.ts";
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "./asserts.ts";
 import {
   kw,
   NamedArgument,
   ProxiedPyObject,
   PyObject,
   python,
+  PythonComplex,
+  PythonDecimal,
+  PythonError,
+  type PythonErrorClass,
+  PythonFraction,
+  type PythonFrame,
+  PythonKeyError,
   type PythonProxy,
+  PythonRange,
 } from "../mod.ts";
+import type { PythonConfig } from "../src/config.ts";
+import { wrapSymbols } from "../src/ffi.ts";
 
 const { version, executable } = python.import("sys");
 console.log("Python version:", version);
@@ -17,6 +32,11 @@ Deno.test("python version", () => {
 });
 
 Deno.test("types", async (t) => {
+  await t.step("none", () => {
+    assertEquals(python.None.valueOf(), null);
+    assertEquals(PyObject.from(undefined).valueOf(), null);
+  });
+
   await t.step("bool", () => {
     const value = python.bool(true);
     assertEquals(value.valueOf(), true);
@@ -27,6 +47,23 @@ Deno.test("types", async (t) => {
     assertEquals(value.valueOf(), 42);
   });
 
+  await t.step("bigint", () => {
+    const big = 2n ** 100n + 7n;
+    const value = python.int(big);
+    assertEquals(value.toString(), big.toString());
+    assert(value.valueOf() === big);
+    assert(PyObject.from(-big).valueOf() === -big);
+    assert(PyObject.from(2n ** 63n - 1n).valueOf() === 2n ** 63n - 1n);
+    assert(PyObject.from(-(2n ** 63n)).valueOf() === -(2n ** 63n));
+    assertEquals(PyObject.from(2 ** 40).valueOf(), 2 ** 40);
+    assertEquals(PyObject.from(-5n).valueOf(), -5);
+    assert(PyObject.from(-5n).valueOf({ intAs: "bigint" }) === -5n);
+    assert(PyObject.from(42).asBigInt() === 42n);
+    assert(
+      PyObject.from([big]).valueOf({ intAs: "number" })[0] === Number(big),
+    );
+  });
+
   await t.step("float", () => {
     const value = python.float(42.0);
     assertEquals(value.valueOf(), 42.0);
@@ -40,6 +77,32 @@ Deno.test("types", async (t) => {
     assertEquals(unicode.valueOf(), "'中文'");
   });
 
+  await t.step("bytes", () => {
+    const data = new Uint8Array([0, 1, 2, 254, 255]);
+    const value = PyObject.from(data);
+    assert(value.isInstance(python.bytes));
+    assertEquals([...value.valueOf()], [...data]);
+    assertEquals([...PyObject.from(data.buffer).asBytes()], [...data]);
+    assertEquals(
+      [...PyObject.from(new Uint16Array([0x0102])).valueOf()].sort(),
+      [1, 2],
+    );
+    assertEquals([...PyObject.from(data.subarray(3)).valueOf()], [254, 255]);
+    assertEquals(PyObject.from(new Uint8Array(0)).valueOf().length, 0);
+  });
+
+  await t.step("bytearray and memoryview", () => {
+    const data = new Uint8Array([1, 2, 3]);
+    const array = PyObject.fromBytes(data, "bytearray");
+    assert(array.isInstance(python.bytearray));
+    array.proxy.append(4);
+    assertEquals([...array.valueOf()], [1, 2, 3, 4]);
+
+    const view = PyObject.fromBytes(data, "memoryview");
+    assertEquals(view.proxy.readonly.valueOf(), false);
+    assertEquals([...view.asBytes()], [1, 2, 3]);
+  });
+
   await t.step("list", () => {
     const value = python.list([1, 2, 3]);
     assertEquals(value.valueOf(), [1, 2, 3]);
@@ -69,6 +132,256 @@ Deno.test("types", async (t) => {
   });
 });
 
+Deno.test("datetime", async (t) => {
+  const { datetime, date, time, timedelta, timezone } = python.import(
+    "datetime",
+  );
+
+  await t.step("Date to datetime", () => {
+    const value = PyObject.from(new Date(Date.UTC(2024, 1, 29, 13, 5, 7, 89)));
+    assert(value.isInstance(datetime));
+    assertEquals(value.toString(), "2024-02-29 13:05:07.089000+00:00");
+    assertEquals(
+      PyObject.from(new Date(Date.UTC(1901, 0, 1))).toString(),
+      "1901-01-01 00:00:00+00:00",
+    );
+    assertThrows(() => PyObject.from(new Date(NaN)));
+  });
+
+  await t.step("datetime to Date", () => {
+    const date = new Date(Date.UTC(2024, 1, 29, 13, 5, 7, 89));
+    assertEquals(PyObject.from(date).valueOf().getTime(), date.getTime());
+
+    const tz = timezone(timedelta(kw`hours=${2}`));
+    const aware = datetime(2024, 1, 1, 2, 30, 0, 999999, kw`tzinfo=${tz}`);
+    assertEquals(aware.valueOf().toISOString(), "2024-01-01T00:30:00.999Z");
+
+    const naive = datetime(2024, 1, 1, 2, 30);
+    assertEquals(
+      naive.valueOf().getTime(),
+      new Date(2024, 0, 1, 2, 30).getTime(),
+    );
+  });
+
+  await t.step("date to Date", () => {
+    assertEquals(
+      date(24, 3, 1).valueOf().toISOString(),
+      "0024-03-01T00:00:00.000Z",
+    );
+  });
+
+  await t.step("time", () => {
+    assertEquals(time(13, 5, 7, 250).valueOf(), {
+      hour: 13,
+      minute: 5,
+      second: 7,
+      microsecond: 250,
+      utcOffset: null,
+    });
+    assertEquals(
+      time(1, kw`tzinfo=${timezone(timedelta(kw`minutes=${-90}`))}`).valueOf()
+        .utcOffset,
+      -5_400_000,
+    );
+  });
+
+  await t.step("timedelta", () => {
+    assertEquals(timedelta(1, 2, 3000).valueOf(), 86_402_003);
+    assertEquals(timedelta(kw`microseconds=${-1500}`).valueOf(), -1.5);
+  });
+});
+
+Deno.test("valueOf options", async (t) => {
+  const { data, Opaque } = python.runModule(
+    `
+class Opaque:
+  pass
+
+data = {"a": [1, (2, 3)], "b": {"c": {4}}}
+  `,
+    "value_of_test.py",
+  );
+
+  await t.step("depth", () => {
+    const shallow = data.valueOf({ depth: 1 });
+    assert(shallow instanceof Map);
+    assert(ProxiedPyObject in shallow.get("a"));
+    assertEquals(shallow.get("a").valueOf(), [1, [2, 3]]);
+
+    const nested = data.valueOf({ depth: 2 });
+    assertEquals(nested.get("a")[0], 1);
+    assert(ProxiedPyObject in nested.get("a")[1]);
+
+    assert(ProxiedPyObject in data.valueOf({ depth: 0 }));
+    assertEquals(python.int(5).valueOf({ depth: 0 }), 5);
+  });
+
+  await t.step("mapAs", () => {
+    const object = data.valueOf({ mapAs: "object" });
+    assertEquals(object.a, [1, [2, 3]]);
+    assertEquals(object.b.c, new Set([4]));
+    assert(
+      python.dict([[1, "one"]]).valueOf({ mapAs: "object" }) instanceof Map,
+    );
+  });
+
+  await t.step("tupleAs", () => {
+    const tuple = python.tuple([1, 2]).valueOf({ tupleAs: "frozen" });
+    assert(Object.isFrozen(tuple));
+    assertEquals(tuple, [1, 2]);
+  });
+
+  await t.step("strict", () => {
+    assertThrows(() => python.list([Opaque()]).valueOf({ strict: true }));
+    assert(ProxiedPyObject in python.list([Opaque()]).valueOf()[0]);
+    assertEquals(data.valueOf({ strict: true }).get("a"), [1, [2, 3]]);
+  });
+});
+
+Deno.test("standard library types", async (t) => {
+  await t.step("decimal", () => {
+    const { Decimal } = python.import("decimal");
+    const value = Decimal("12345678901234567890.10").valueOf();
+    assert(value instanceof PythonDecimal);
+    assertEquals(value.toString(), "12345678901234567890.10");
+    assertEquals(
+      PyObject.from(new PythonDecimal("-0.000001")).toString(),
+      "-0.000001",
+    );
+    assertEquals(Decimal("NaN").valueOf().value, "NaN");
+  });
+
+  await t.step("complex", () => {
+    const value = python.complex(1.5, -2).valueOf();
+    assert(value instanceof PythonComplex);
+    assertEquals(value, { re: 1.5, im: -2 });
+    assertEquals(PyObject.from(new PythonComplex(0, 1)).toString(), "1j");
+  });
+
+  await t.step("fraction", () => {
+    const { Fraction } = python.import("fractions");
+    const value = Fraction(2n ** 70n, 6).valueOf();
+    assert(value instanceof PythonFraction);
+    assert(value.numerator === 2n ** 69n && value.denominator === 3n);
+    assertEquals(
+      PyObject.from(new PythonFraction(3n, 9n)).toString(),
+      "1/3",
+    );
+  });
+
+  await t.step("uuid", () => {
+    const { UUID } = python.import("uuid");
+    const id = "12345678-1234-5678-1234-567812345678";
+    assertEquals(UUID(id).valueOf(), id);
+  });
+
+  await t.step("enum", () => {
+    const { Color } = python.runModule(
+      `
+import enum
+
+class Color(enum.Enum):
+  RED = 1
+  GREEN = "green"
+  `,
+      "enum_test.py",
+    );
+    assertEquals(Color.RED.valueOf(), 1);
+    assertEquals(Color.GREEN.valueOf(), "green");
+    assertEquals(
+      PyObject.from(Color.RED).valueOf({ enumAs: "name" }),
+      "RED",
+    );
+  });
+
+  await t.step("pathlib", () => {
+    const { PurePosixPath } = python.import("pathlib");
+    assertEquals(PurePosixPath("/tmp", "file.txt").valueOf(), "/tmp/file.txt");
+  });
+
+  await t.step("frozenset", () => {
+    assertEquals(python.frozenset([1, 2]).valueOf(), new Set([1, 2]));
+  });
+
+  await t.step("range", () => {
+    const value = python.range(10, 0, -3).valueOf();
+    assert(value instanceof PythonRange);
+    assertEquals([...value], [10, 7, 4, 1]);
+    assertEquals(
+      python.list(new PythonRange(0, 5, 2)).valueOf(),
+      [0, 2, 4],
+    );
+  });
+});
+
+Deno.test("converters", async (t) => {
+  class Point {
+    constructor(public x: number, public y: number) {}
+  }
+
+  const { PyPoint, SubPoint } = python.runModule(
+    `
+class PyPoint:
+  def __init__(self, x, y):
+    self.x, self.y = x, y
+
+class SubPoint(PyPoint):
+  pass
+  `,
+    "converters_test.py",
+  );
+
+  await t.step("both directions", () => {
+    const converter = python.converters.register({
+      jsClass: Point,
+      toPython: (p) => PyPoint(p.x, p.y),
+      pythonType: PyPoint,
+      fromPython: (p) => new Point(p.x.valueOf(), p.y.valueOf()),
+    });
+
+    const value = python.list([new Point(1, 2)])[0];
+    assert(python.builtins.isinstance(value, PyPoint).valueOf());
+    assertEquals(value.y.valueOf(), 2);
+
+    const point = python.list([new Point(3, 4), SubPoint(5, 6)]).valueOf();
+    assert(point[0] instanceof Point);
+    assertEquals(point, [{ x: 3, y: 4 }, { x: 5, y: 6 }]);
+
+    assert(python.converters.unregister(converter));
+    assert(!python.converters.unregister(converter));
+    assert(!(PyPoint(1, 2).valueOf() instanceof Point));
+  });
+
+  await t.step("test function", () => {
+    const converter = python.converters.register({
+      test: (v) => typeof v === "string" && v.startsWith("#"),
+      toPython: (v: string) => parseInt(v.slice(1), 16),
+    });
+    assertEquals(PyObject.from("#ff").valueOf(), 255);
+    assertEquals(PyObject.from("ff").valueOf(), "ff");
+    python.converters.unregister(converter);
+  });
+
+  await t.step("later registration takes precedence", () => {
+    const first = python.converters.register({
+      pythonType: PyPoint,
+      fromPython: () => "first",
+    });
+    const second = python.converters.register({
+      pythonType: PyPoint,
+      fromPython: () => "second",
+    });
+    assertEquals(PyPoint(0, 0).valueOf(), "second");
+    python.converters.unregister(second);
+    assertEquals(PyPoint(0, 0).valueOf(), "first");
+    python.converters.unregister(first);
+  });
+
+  await t.step("invalid converter", () => {
+    assertThrows(() => python.converters.register({ jsClass: Point }));
+  });
+});
+
 Deno.test("object", async (t) => {
   const { Person } = python.runModule(`
 class Person:
@@ -86,6 +399,15 @@ class Person:
     assertEquals(person.name.valueOf(), "Jane");
   });
 
+  await t.step("set new attr", () => {
+    // Like setattr, a new attribute is set if there is no such attribute
+    person.age = 42;
+    assertEquals(person.age.valueOf(), 42);
+    assertThrows(() => {
+      python.builtins.object().age = 42;
+    });
+  });
+
   await t.step("has attr", () => {
     assert("name" in person);
   });
@@ -131,6 +453,400 @@ class Person:
       i++;
     }
   });
+
+  await t.step("items outlive their container", () => {
+    const mod = python.runModule(
+      `
+import weakref
+
+class Item:
+  pass
+
+refs = []
+
+def new_item():
+  item = Item()
+  refs.append(weakref.ref(item))
+  return item
+
+def new_list():
+  return [new_item()]
+
+def new_dict():
+  return {"key": new_item()}
+
+def call_with_items(callback):
+  callback({"key": new_item()}, (new_item(),))
+
+def alive():
+  return [ref() is not None for ref in refs]
+  `,
+      "items_test.py",
+    );
+    const list = mod.new_list();
+    const dict = mod.new_dict();
+    const items = [list[0], dict.key];
+    list.clear();
+    dict.clear();
+    mod.call_with_items(
+      (_: unknown, map: Map<string, unknown>, tuple: unknown[]) => {
+        items.push(map.get("key"), tuple[0]);
+      },
+    );
+    assertEquals(mod.alive().valueOf(), [true, true, true, true]);
+    assertEquals(items.length, 4);
+  });
+
+  await t.step("equals", () => {
+    const list = python.list([1, 2])[ProxiedPyObject];
+    assert(list.equals([1, 2]));
+    assert(!list.equals([2, 1]));
+    assert(!PyObject.from(1).equals("1"));
+  });
+
+  await t.step("is none", () => {
+    assert(python.None[ProxiedPyObject].isNone);
+    assert(PyObject.from(null).isNone);
+    assert(!PyObject.from(0).isNone);
+    assert(!python.list([])[ProxiedPyObject].isNone);
+  });
+});
+
+Deno.test("operators", async (t) => {
+  const { Decimal } = python.import("decimal");
+  const { Matrix } = python.runModule(
+    `
+class Matrix:
+  def __init__(self, rows):
+    self.rows = rows
+
+  def __matmul__(self, other):
+    return [[sum(a * b for a, b in zip(row, col)) for col in zip(*other.rows)]
+            for row in self.rows]
+  `,
+    "operators_test",
+  );
+
+  await t.step("arithmetic", () => {
+    const a = python.int(7)[ProxiedPyObject];
+    assertEquals(a.add(2).valueOf(), 9);
+    assertEquals(a.sub(2).valueOf(), 5);
+    assertEquals(a.mul(2).valueOf(), 14);
+    assertEquals(a.truediv(2).valueOf(), 3.5);
+    assertEquals(a.floordiv(2).valueOf(), 3);
+    assertEquals(a.mod(2).valueOf(), 1);
+    assertEquals(a.pow(2).valueOf(), 49);
+    assertEquals(a.pow(2, 10).valueOf(), 9);
+    assertEquals(a.neg().valueOf(), -7);
+    assertEquals(a.neg().abs().valueOf(), 7);
+    assertEquals(
+      Decimal("0.1")[ProxiedPyObject].add(Decimal("0.2")).toString(),
+      "0.3",
+    );
+    assertEquals(python.str("ab")[ProxiedPyObject].mul(2).valueOf(), "abab");
+    assertEquals(
+      new Matrix([[1, 2], [3, 4]])[ProxiedPyObject].matmul(
+        new Matrix([[5], [6]]),
+      ).valueOf(),
+      [[17], [39]],
+    );
+  });
+
+  await t.step("bitwise", () => {
+    const a = python.int(0b1100)[ProxiedPyObject];
+    assertEquals(a.and(0b1010).valueOf(), 0b1000);
+    assertEquals(a.or(0b1010).valueOf(), 0b1110);
+    assertEquals(a.xor(0b1010).valueOf(), 0b0110);
+    assertEquals(a.lshift(2).valueOf(), 0b110000);
+    assertEquals(a.rshift(2).valueOf(), 0b11);
+    assertEquals(a.invert().valueOf(), -13);
+  });
+
+  await t.step("comparisons", () => {
+    const a = python.int(2)[ProxiedPyObject];
+    assertEquals(
+      [a.lt(3), a.le(2), a.eq(2), a.ne(2), a.gt(3), a.ge(3)].map((result) =>
+        result.valueOf()
+      ),
+      [true, true, true, false, false, false],
+    );
+  });
+
+  await t.step("containers", () => {
+    const list = python.list([1, 2, 3])[ProxiedPyObject];
+    assert(list.contains(2));
+    assert(!list.contains(4));
+    assertEquals(list.len(), 3);
+    assert(
+      python.str("abc")[ProxiedPyObject].hash() ===
+        python.builtins.hash("abc")[ProxiedPyObject].asBigInt(),
+    );
+  });
+
+  await t.step("proxies keep python attributes", () => {
+    const set = python.set([1]);
+    set.add(2);
+    assertEquals(set[ProxiedPyObject].len(), 2);
+    assert(set[ProxiedPyObject].contains(2));
+  });
+
+  await t.step("errors", () => {
+    assertThrows(() => python.int(1)[ProxiedPyObject].add("a"));
+    assertThrows(() => python.int(1)[ProxiedPyObject].len());
+    assertThrows(() => python.list()[ProxiedPyObject].hash());
+  });
+});
+
+Deno.test("generators", async (t) => {
+  const { counter, accumulate, agen, state } = python.runModule(
+    `
+state = {"closed": False}
+
+def counter(n):
+  for i in range(n):
+    yield i
+
+def accumulate():
+  total = 0
+  try:
+    while True:
+      value = yield total
+      if value is None:
+        return total
+      total += value
+  except ValueError:
+    yield -1
+  finally:
+    state["closed"] = True
+
+async def agen(n):
+  for i in range(n):
+    received = yield i
+    if received is not None:
+      yield received * 2
+  `,
+    "generator_test.py",
+  );
+
+  await t.step("iterate", () => {
+    assertEquals([...counter(3)].map((v) => v.valueOf()), [0, 1, 2]);
+  });
+
+  await t.step("send and return value", () => {
+    const gen = accumulate()[Symbol.iterator]();
+    assertEquals(gen.next().value!.valueOf(), 0);
+    assertEquals(gen.next(5).value!.valueOf(), 5);
+    assertEquals(gen.next(10).value!.valueOf(), 15);
+    const result = gen.next();
+    assert(result.done);
+    assertEquals(result.value!.valueOf(), 15);
+  });
+
+  await t.step("throw", () => {
+    const gen = accumulate()[Symbol.iterator]();
+    gen.next();
+    const err = assertThrows(() =>
+      python.runModule("raise ValueError('oops')")
+    );
+    assertEquals(gen.throw(err).value!.valueOf(), -1);
+    assertThrows(() => gen.throw(new Error("js error")));
+  });
+
+  await t.step("return closes the generator", () => {
+    state.closed = false;
+    for (const value of accumulate()) {
+      assertEquals(value.valueOf(), 0);
+      break;
+    }
+    assertEquals(state.closed.valueOf(), true);
+  });
+
+  await t.step("async generator", async () => {
+    const values = [];
+    for await (const value of agen(3)) {
+      values.push(value.valueOf());
+    }
+    assertEquals(values, [0, 1, 2]);
+
+    const gen = agen(3)[Symbol.asyncIterator]();
+    assertEquals((await gen.next()).value!.valueOf(), 0);
+    assertEquals((await gen.next(21)).value!.valueOf(), 42);
+    assertEquals((await gen.return(undefined)).done, true);
+  });
+});
+
+Deno.test("js iterables", async (t) => {
+  const { take, collect, is_async_iterator, double } = python.runModule(
+    `
+import collections.abc
+import itertools
+
+def take(iterable, n):
+  return list(itertools.islice(iterable, n))
+
+def collect(iterable):
+  return list(iterable)
+
+def is_async_iterator(value):
+  return isinstance(value, collections.abc.AsyncIterator)
+
+async def double(iterable):
+  async for value in iterable:
+    yield value * 2
+  `,
+    "iterable_test.py",
+  );
+
+  await t.step("generator is pulled lazily", () => {
+    let pulled = 0;
+    function* naturals() {
+      for (let i = 0;; i++) {
+        pulled++;
+        yield i;
+      }
+    }
+    assertEquals(take(naturals(), 3).valueOf(), [0, 1, 2]);
+    assertEquals(pulled, 3);
+  });
+
+  await t.step("custom iterable", () => {
+    const iterable = {
+      *[Symbol.iterator]() {
+        yield "a";
+        yield { b: 1 };
+      },
+    };
+    assertEquals(collect(iterable).valueOf(), [
+      "a",
+      new Map([["b", 1]]),
+    ]);
+    assertEquals(collect(new Map([[1, 2]]).keys()).valueOf(), [1]);
+  });
+
+  await t.step("async iterable", () => {
+    async function* values() {
+      yield 1;
+    }
+    assert(is_async_iterator(values()).valueOf());
+    assert(!is_async_iterator([1]).valueOf());
+  });
+
+  await t.step("async iterable values", async () => {
+    async function* values() {
+      for (let i = 1; i <= 3; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        yield i;
+      }
+    }
+    const result = [];
+    for await (const value of double(values())) {
+      result.push(value.valueOf());
+    }
+    assertEquals(result, [2, 4, 6]);
+  });
+
+  await t.step("async iterable error", async () => {
+    async function* values() {
+      yield 1;
+      throw new Error("boom");
+    }
+    const iterator = double(values())[Symbol.asyncIterator]();
+    assertEquals((await iterator.next()).value!.valueOf(), 2);
+    await assertRejects(() => iterator.next());
+  });
+});
+
+Deno.test("js object references", async (t) => {
+  const mod = python.runModule(
+    `
+def greet(api, name):
+  return api.greet(name)
+
+def get(obj, name):
+  return getattr(obj, name)
+
+def has(obj, name):
+  return hasattr(obj, name)
+
+def set(obj, name, value):
+  setattr(obj, name, value)
+
+def items(obj):
+  return [len(obj), 2 in obj, obj[0], obj[-1], list(obj)]
+
+def call(fn, *args, **kwargs):
+  return fn(*args, **kwargs)
+
+def identity(obj):
+  return obj
+
+def truthy(obj):
+  return bool(obj)
+  `,
+    "ref_test.py",
+  );
+
+  class Api {
+    greeting = "Hello";
+    nested = { count: 1 };
+
+    greet(name: string) {
+      return `${this.greeting}, ${name}!`;
+    }
+  }
+
+  await t.step("methods and attributes", () => {
+    const api = new Api();
+    const ref = python.ref(api);
+    assertEquals(mod.greet(ref, "world").valueOf(), "Hello, world!");
+    assertEquals(mod.get(ref, "greeting").valueOf(), "Hello");
+    assertEquals(mod.has(ref, "missing").valueOf(), false);
+
+    mod.set(ref, "greeting", "Hi");
+    assertEquals(api.greeting, "Hi");
+    assertEquals(mod.greet(ref, "there").valueOf(), "Hi, there!");
+
+    // Nested objects are references too
+    mod.set(mod.get(ref, "nested"), "count", 2);
+    assertEquals(api.nested.count, 2);
+  });
+
+  await t.step("identity", () => {
+    const api = new Api();
+    assert(mod.identity(python.ref(api)).valueOf() === api);
+    assert(mod.get(python.ref(api), "nested").valueOf() === api.nested);
+  });
+
+  await t.step("arrays and maps", () => {
+    const array = [1, 2, 3];
+    assertEquals(mod.items(python.ref(array)).valueOf(), [
+      3,
+      true,
+      1,
+      3,
+      [1, 2, 3],
+    ]);
+
+    const map = python.ref(new Map([["a", 1]]));
+    assertEquals(map.proxy.__getitem__("a").valueOf(), 1);
+    assertThrows(() => map.proxy.__getitem__("b"));
+  });
+
+  await t.step("functions", () => {
+    const fn = (a: number, b: number, options?: { scale: number }) =>
+      (a + b) * (options?.scale ?? 1);
+    assertEquals(mod.call(python.ref(fn), 1, 2).valueOf(), 3);
+    assertEquals(
+      mod.call(python.ref(fn), 1, 2, kw`scale=${10}`).valueOf(),
+      30,
+    );
+  });
+
+  await t.step("truthiness", () => {
+    assertEquals(mod.truthy(python.ref(new Api())).valueOf(), true);
+    assertEquals(mod.truthy(python.ref(() => 0)).valueOf(), true);
+    assertEquals(mod.truthy(python.ref([])).valueOf(), true);
+  });
 });
 
 Deno.test("named argument", async (t) => {
@@ -165,6 +881,26 @@ Deno.test("numpy", () => {
   const _np = python.import("numpy");
 });
 
+Deno.test("numpy typed array", () => {
+  const np = python.import("numpy");
+
+  const array = np.arange(6, kw`dtype=${"float64"}`).reshape(2, 3);
+  const buffer = array[ProxiedPyObject].getBuffer();
+  assert(buffer.data instanceof Float64Array);
+  assertEquals([...buffer.data], [0, 1, 2, 3, 4, 5]);
+  assertEquals(buffer.shape, [2, 3]);
+  assertEquals(buffer.strides, [24, 8]);
+
+  buffer.data[0] = 42;
+  assertEquals(array.item(0, 0).valueOf(), 42);
+
+  const data = new Int32Array([1, 2, 3, 4]);
+  const shared = np.asarray(python.fromTypedArray(data, [2, 2]));
+  assertEquals(shared.dtype.name.valueOf(), "int32");
+  shared.__setitem__(python.tuple([1, 1]), 40);
+  assertEquals(data[3], 40);
+});
+
 Deno.test("custom proxy", () => {
   const np = python.import("numpy");
 
@@ -184,6 +920,71 @@ Deno.test("custom proxy", () => {
   assertEquals(np.add(arr, 2).tolist().valueOf(), [3, 4, 5]);
 });
 
+Deno.test("buffer protocol", async (t) => {
+  const { array } = python.import("array");
+
+  await t.step("as typed array", () => {
+    const arr = array("d", [1.5, 2.5, 3.5]);
+    const data = arr[ProxiedPyObject].asTypedArray();
+    assert(data instanceof Float64Array);
+    assertEquals([...data], [1.5, 2.5, 3.5]);
+
+    // Memory is shared, not copied
+    data[1] = 42;
+    assertEquals(arr.__getitem__(1).valueOf(), 42);
+    arr.__setitem__(2, -1);
+    assertEquals(data[2], -1);
+  });
+
+  await t.step("buffer info", () => {
+    const buffer = array("h", [1, 2, 3, 4])[ProxiedPyObject].getBuffer();
+    assert(buffer.data instanceof Int16Array);
+    assertEquals(buffer.format, "h");
+    assertEquals(buffer.itemSize, 2);
+    assertEquals(buffer.shape, [4]);
+    assertEquals(buffer.strides, [2]);
+    assertEquals(buffer.readonly, false);
+    buffer.release();
+
+    const bytes = PyObject.from(new Uint8Array([1, 2])).getBuffer();
+    assert(bytes.data instanceof Uint8Array);
+    assertEquals(bytes.readonly, true);
+    bytes.release();
+  });
+
+  await t.step("unsupported buffers", () => {
+    assertThrows(() => PyObject.from(1).getBuffer());
+    const { memoryview } = python.builtins;
+    const view = memoryview(array("i", [1, 2, 3, 4]))["::2"];
+    assertThrows(() => view[ProxiedPyObject].getBuffer());
+  });
+
+  await t.step("from typed array", () => {
+    const data = new Float32Array([1, 2, 3, 4, 5, 6]);
+    const view = python.fromTypedArray(data, [2, 3]).proxy;
+    assertEquals(view.format.valueOf(), "f");
+    assertEquals(view.shape.valueOf(), [2, 3]);
+    assertEquals(view.tolist().valueOf(), [[1, 2, 3], [4, 5, 6]]);
+
+    // Memory is shared, not copied
+    view.__setitem__(python.tuple([0, 1]), 42);
+    assertEquals(data[1], 42);
+    data[5] = -1;
+    assertEquals(view.tolist().valueOf()[1][2], -1);
+
+    const offset = python.fromTypedArray(
+      new Uint16Array([1, 2, 3]).subarray(1),
+    );
+    assertEquals(offset.valueOf().tolist().valueOf(), [2, 3]);
+
+    const empty = python.fromTypedArray(new Int32Array(0)).proxy;
+    assertEquals(empty.format.valueOf(), "i");
+    assertEquals(empty.shape.valueOf(), [0]);
+    assertEquals(empty.tolist().valueOf(), []);
+    assertThrows(() => python.fromTypedArray(new Int32Array(0), [0, 2]));
+  });
+});
+
 Deno.test("slice", async (t) => {
   await t.step("get", () => {
     const list = python.list([1, 2, 3, 4, 5, 6, 7, 8, 9]);
@@ -280,6 +1081,702 @@ async def test():
   assertEquals(aio.run(test()).valueOf(), "ok");
 });
 
+Deno.test("async calls", async (t) => {
+  const { busy, fail } = python.runModule(
+    `
+import time
+
+def busy(seconds, result=None):
+  end = time.time() + seconds
+  while time.time() < end:
+    pass
+  return result
+
+def fail():
+  raise ValueError("nope")
+  `,
+    "async_calls_test.py",
+  );
+
+  await t.step("does not block JS", async () => {
+    let ticks = 0;
+    const interval = setInterval(() => {
+      ticks++;
+      // Python can still be called meanwhile
+      python.builtins.len([ticks]);
+    }, 10);
+    const result = await busy[ProxiedPyObject].callAsync(
+      [0.2],
+      { result: "done" },
+    );
+    clearInterval(interval);
+    assertEquals(result.valueOf(), "done");
+    assert(ticks > 2);
+  });
+
+  await t.step("concurrently", async () => {
+    const results = await Promise.all(
+      [1, 2, 3].map((n) =>
+        busy[ProxiedPyObject].callAsync([0.01, n]).then((r: PyObject) =>
+          r.valueOf()
+        )
+      ),
+    );
+    assertEquals(results, [1, 2, 3]);
+  });
+
+  await t.step("errors", async () => {
+    await assertRejects(() => fail[ProxiedPyObject].callAsync());
+    await assertRejects(() => python.runAsync("raise ValueError()"));
+  });
+
+  await t.step("run code", async () => {
+    await python.runAsync("async_calls_result = sum(range(10))");
+    assertEquals(python.import("__main__").async_calls_result.valueOf(), 45);
+  });
+});
+
+Deno.test("threads", async (t) => {
+  const { in_thread, call_in_thread, thread_states } = python.runModule(
+    `
+import ctypes
+import threading
+
+api = ctypes.pythonapi
+api.PyInterpreterState_Main.restype = ctypes.c_void_p
+api.PyInterpreterState_ThreadHead.argtypes = [ctypes.c_void_p]
+api.PyInterpreterState_ThreadHead.restype = ctypes.c_void_p
+api.PyThreadState_Next.argtypes = [ctypes.c_void_p]
+api.PyThreadState_Next.restype = ctypes.c_void_p
+
+def in_thread(f, *args):
+  result = []
+  thread = threading.Thread(target=lambda: result.append(f(*args)))
+  thread.start()
+  return thread, result
+
+def call_in_thread(f, value):
+  result = []
+  thread = threading.Thread(target=lambda: result.append(f(value)))
+  thread.start()
+  thread.join()
+  return result[0]
+
+def thread_states():
+  count = 0
+  state = api.PyInterpreterState_ThreadHead(api.PyInterpreterState_Main())
+  while state:
+    count += 1
+    state = api.PyThreadState_Next(state)
+  return count
+  `,
+    "threads_test.py",
+  );
+
+  await t.step("python threads run while JS is idle", async () => {
+    const [thread, result] = in_thread(python.builtins.sum, [1, 2, 3])
+      .valueOf({ depth: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert(!thread.is_alive().valueOf());
+    assertEquals(result.valueOf(), [6]);
+  });
+
+  await t.step("JS callbacks called from python threads", async () => {
+    const [thread, result] = in_thread(
+      (_: unknown, value: number) => value + 1,
+      41,
+    ).valueOf({ depth: 1 });
+    while (thread.is_alive().valueOf()) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assertEquals(result.valueOf(), [42]);
+  });
+
+  await t.step("JS callbacks called from async calls", async () => {
+    const result = await call_in_thread[ProxiedPyObject].callAsync([
+      (_: unknown, value: string) => value.toUpperCase(),
+      "ok",
+    ]);
+    assertEquals(result.valueOf(), "OK");
+  });
+
+  await t.step("workers share the interpreter", async () => {
+    python.run("threads_test_value = 'shared'");
+    const worker = new Worker(new URL("./worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const result = await new Promise((resolve) => {
+      worker.onmessage = (event) => resolve(event.data);
+      worker.postMessage("threads_test_value");
+    });
+    worker.terminate();
+    assertEquals(result, ["shared", 42]);
+  });
+
+  await t.step("workers leave no thread state behind", async () => {
+    const before = thread_states().valueOf();
+    const worker = new Worker(new URL("./worker.ts", import.meta.url), {
+      type: "module",
+    });
+    await new Promise((resolve) => {
+      worker.onmessage = resolve;
+      worker.postMessage("threads_test_value");
+    });
+    worker.terminate();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assertEquals(thread_states().valueOf(), before);
+  });
+
+  await t.step("functions of terminated workers can be freed", async () => {
+    for (let i = 0; i < 3; i++) {
+      const worker = new Worker(new URL("./worker.ts", import.meta.url), {
+        type: "module",
+      });
+      await new Promise((resolve) => {
+        worker.onmessage = resolve;
+        worker.postMessage("threads_test_value");
+      });
+      worker.terminate();
+      python.run("del worker_function\nimport gc\ngc.collect()");
+    }
+  });
+});
+
+Deno.test("exit", async () => {
+  const { code, stdout } = await new Deno.Command(Deno.execPath(), {
+    args: [
+      "run",
+      "-A",
+      "--unstable-ffi",
+      new URL("./exit.ts", import.meta.url).href,
+    ],
+    stderr: "inherit",
+  }).output();
+  assertEquals(code, 0);
+  assertEquals(new TextDecoder().decode(stdout).trim(), "thread called JS");
+});
+
+Deno.test("dispose", async (t) => {
+  const mod = python.runModule(
+    `
+import sys
+
+value = object()
+
+class Value:
+    pass
+
+instance = Value()
+
+def refs():
+    return sys.getrefcount(value)
+
+def type_refs():
+    return sys.getrefcount(Value)
+
+def accept(*args, **kwargs):
+    pass
+`,
+    "dispose_test",
+  );
+  const value = mod.value;
+  const before = mod.refs().valueOf();
+
+  await t.step("PyObject", () => {
+    const objects = Array.from({ length: 10 }, () => PyObject.from(value));
+    assertEquals(mod.refs().valueOf(), before + 10);
+    for (const object of objects) {
+      object[Symbol.dispose]();
+    }
+    assertEquals(mod.refs().valueOf(), before);
+    // Disposing twice does nothing
+    objects[0][Symbol.dispose]();
+    assertEquals(mod.refs().valueOf(), before);
+    assertThrows(() => objects[0].handle);
+  });
+
+  await t.step("using proxies", () => {
+    {
+      using attribute = mod.value;
+      assertEquals(mod.refs().valueOf(), before + 1);
+      assertEquals(attribute.__class__.__name__.valueOf(), "object");
+    }
+    assertEquals(mod.refs().valueOf(), before);
+  });
+
+  await t.step("temporaries", () => {
+    const values = python.list();
+    const dict = python.dict();
+    const named = kw`named=${value}`;
+    for (let i = 0; i < 10; i++) {
+      python.builtins.id(value);
+      python.builtins.isinstance(value, python.builtins.object);
+      mod.accept(value, named);
+      values.append(value);
+      values[0] = value;
+      dict.key = value;
+    }
+    assertEquals(mod.refs().valueOf(), before + 12);
+    values.clear();
+    dict.clear();
+    named.value[Symbol.dispose]();
+    assertEquals(mod.refs().valueOf(), before);
+
+    const typeRefs = mod.type_refs().valueOf();
+    using instance = mod.instance;
+    for (let i = 0; i < 10; i++) {
+      instance.valueOf();
+    }
+    assertEquals(mod.type_refs().valueOf(), typeRefs);
+  });
+
+  await t.step("scope", () => {
+    const count = python.scope(() => {
+      for (let i = 0; i < 10; i++) {
+        mod.value;
+      }
+      return mod.refs().valueOf();
+    });
+    assertEquals(count, before + 10);
+    assertEquals(mod.refs().valueOf(), before);
+  });
+
+  await t.step("scope keeps the returned object", () => {
+    const kept = python.scope(() => {
+      const inner = python.scope(() => mod.value);
+      assertEquals(mod.refs().valueOf(), before + 1);
+      return inner;
+    });
+    assertEquals(mod.refs().valueOf(), before + 1);
+    assertEquals(kept.__class__.__name__.valueOf(), "object");
+    kept[Symbol.dispose]();
+    assertEquals(mod.refs().valueOf(), before);
+
+    python.scope(() => {
+      python.scope(() => mod.value);
+    });
+    assertEquals(mod.refs().valueOf(), before);
+  });
+
+  await t.step("scope releases objects on errors", () => {
+    assertThrows(() =>
+      python.scope(() => {
+        mod.value;
+        throw new Error("oops");
+      })
+    );
+    assertEquals(mod.refs().valueOf(), before);
+
+    // Errors are not released along with the scope they are thrown from
+    const error = assertThrows(() =>
+      python.scope(() => python.runModule("1 / 0"))
+    );
+    assertEquals(error.value.toString(), "division by zero");
+  });
+
+  await t.step("scope objects kept by callbacks", () => {
+    // deno-lint-ignore no-explicit-any
+    let kept: any;
+    const callback = python.callback((_, value) => {
+      kept = value;
+    });
+    python.scope(() => {
+      python.runModule("def call(f, value): f(value)").call(callback, value);
+    });
+    assertEquals(kept.__class__.__name__.valueOf(), "object");
+    callback.destroy();
+  });
+
+  await t.step("scope is synchronous", () => {
+    assertThrows(() => python.scope(async () => {}));
+  });
+});
+
+Deno.test("sub-interpreters", async (t) => {
+  const interpreter = python.createInterpreter();
+
+  await t.step("isolated modules", () => {
+    python.run("sub_interpreters_test = 'main'");
+    interpreter.run("sub_interpreters_test = 'sub'; import sys");
+    interpreter.run("sys.path.append('sub_interpreters_test')");
+    const [value, inPath] = interpreter.enter((python) => [
+      python.import("__main__").sub_interpreters_test.valueOf(),
+      python.import("sys").path.valueOf().includes("sub_interpreters_test"),
+    ]);
+    assertEquals(value, "sub");
+    assert(inPath);
+    assertEquals(
+      python.import("__main__").sub_interpreters_test.valueOf(),
+      "main",
+    );
+    assert(
+      !python.import("sys").path.valueOf().includes("sub_interpreters_test"),
+    );
+  });
+
+  await t.step("conversions and callbacks", () => {
+    const callback = python.callback((_, values: number[]) => [
+      ...values,
+      ...values,
+    ]);
+    const result = interpreter.enter((python) => {
+      const { apply } = python.runModule(
+        "def apply(f, value): return f(value)",
+      );
+      return apply(callback, [1, 2]).valueOf();
+    });
+    assertEquals(result, [1, 2, 1, 2]);
+    callback.destroy();
+  });
+
+  await t.step("converters", () => {
+    class Point {
+      constructor(public x: number) {}
+    }
+    const main = python.converters.register({
+      jsClass: Point,
+      toPython: (point) => ["main", point.x],
+    });
+    const [sub, converted] = interpreter.enter((python) => {
+      // Only the converters of the sub-interpreter apply in it
+      const converted = [python.str(new Point(1)).valueOf()];
+      python.converters.register({
+        jsClass: Point,
+        toPython: (point) => ["sub", point.x],
+        pythonType: python.builtins.complex,
+        fromPython: () => "complex",
+      });
+      converted.push(python.str(new Point(1)).valueOf());
+      converted.push(python.builtins.complex(1, 2).valueOf());
+      return [python.converters, converted];
+    });
+    assert(sub !== python.converters);
+    assertEquals(converted, ["{'x': 1}", "['sub', 1]", "complex"]);
+    assertEquals(python.str(new Point(1)).valueOf(), "['main', 1]");
+    assert(python.builtins.complex(1, 2).valueOf() !== "complex");
+    python.converters.unregister(main);
+  });
+
+  await t.step("close", () => {
+    const callback = python.callback(() => {
+      const interpreter = python.createInterpreter();
+      interpreter.run("import json");
+      interpreter.close();
+    });
+    // Also while Python code is running
+    python.runModule("def call(f): f()").call(callback);
+    callback.destroy();
+
+    interpreter.close();
+    assert(interpreter.closed);
+    assertThrows(() => interpreter.run("pass"));
+  });
+
+  await t.step("own GIL", () => {
+    const { minor } = python.import("sys").version_info;
+    if (minor.valueOf() < 12) {
+      assertThrows(() => python.createInterpreter({ ownGil: true }));
+      return;
+    }
+    const interpreter = python.createInterpreter({ ownGil: true });
+    assertEquals(
+      interpreter.enter((python) => python.list([1, 2]).valueOf()),
+      [1, 2],
+    );
+    interpreter.close();
+  });
+});
+
+Deno.test("library", async (t) => {
+  await t.step("loaded", () => {
+    const { python_version } = python.import("platform");
+    assertEquals(python.library.version, python_version().valueOf());
+  });
+
+  await t.step("not found", async () => {
+    const { code, stderr } = await new Deno.Command(Deno.execPath(), {
+      args: [
+        "run",
+        "-A",
+        "--unstable-ffi",
+        new URL("./config.ts", import.meta.url).href,
+        "{}",
+      ],
+      env: { DENO_PYTHON_PATH: "/library_test/libpython.so" },
+      stderr: "piped",
+    }).output();
+    assertEquals(code, 1);
+    const message = new TextDecoder().decode(stderr);
+    assert(message.includes("Could not find Python library!"));
+    assert(message.includes("/library_test/libpython.so: "));
+  });
+
+  // Path of the library loaded for a virtual environment, when Python can't
+  // be run to ask for it
+  async function libraryOf(venv: string): Promise<string> {
+    const { code, stdout } = await new Deno.Command(Deno.execPath(), {
+      args: [
+        "run",
+        "--allow-ffi",
+        "--allow-env",
+        "--allow-read",
+        "--unstable-ffi",
+        new URL("./config.ts", import.meta.url).href,
+        JSON.stringify({ venv }),
+      ],
+      stderr: "inherit",
+    }).output();
+    assertEquals(code, 0);
+    return JSON.parse(new TextDecoder().decode(stdout)).library;
+  }
+
+  await t.step("found without running Python", async () => {
+    const venv = await Deno.makeTempDir();
+    const prefix = python.import("sys").base_prefix;
+    const home = Deno.build.os === "windows" ? prefix : `${prefix}/bin`;
+    await Deno.writeTextFile(
+      `${venv}/pyvenv.cfg`,
+      `home = ${home}\nversion = ${python.library.version}\n`,
+    );
+    try {
+      assertEquals(await libraryOf(venv), python.library.path);
+    } finally {
+      await Deno.remove(venv, { recursive: true });
+    }
+  });
+
+  await t.step({
+    name: "of the version of the virtual environment",
+    ignore: Deno.build.os === "windows",
+    fn: async () => {
+      // Installation holding the standard library, the library of its version
+      // in `lib64`, and the one of another version in `lib`
+      const base = await Deno.makeTempDir();
+      const venv = await Deno.makeTempDir();
+      const [major, minor] = python.library.version.split(".");
+      const stdlib = python.import("sysconfig").get_path("stdlib").valueOf();
+      await Deno.mkdir(`${base}/lib`);
+      await Deno.mkdir(`${base}/lib64`);
+      await Deno.symlink(stdlib, `${base}/lib/python${major}.${minor}`);
+      const extension = Deno.build.os === "darwin" ? "dylib" : "so";
+      const library = `${base}/lib64/libpython${major}.${minor}.${extension}`;
+      await Deno.symlink(python.library.path, library);
+      await Deno.symlink(
+        python.library.path,
+        `${base}/lib/libpython${major}.${Number(minor) + 1}.${extension}`,
+      );
+      await Deno.writeTextFile(
+        `${venv}/pyvenv.cfg`,
+        `home = ${base}/bin\nversion = ${python.library.version}\n`,
+      );
+      try {
+        assertEquals(await libraryOf(venv), library);
+      } finally {
+        await Deno.remove(base, { recursive: true });
+        await Deno.remove(venv, { recursive: true });
+      }
+    },
+  });
+});
+
+Deno.test("shutdown", async () => {
+  const { code, stdout } = await new Deno.Command(Deno.execPath(), {
+    args: [
+      "run",
+      "-A",
+      "--unstable-ffi",
+      new URL("./shutdown.ts", import.meta.url).href,
+    ],
+    stderr: "inherit",
+  }).output();
+  assertEquals(code, 0);
+  assertEquals(new TextDecoder().decode(stdout).trim().split("\n"), [
+    "thread called JS",
+    "atexit handler",
+    "buffered log",
+    "sub-interpreter closed true",
+    "Python has been shut down",
+    "worker: Python has been shut down",
+  ]);
+});
+
+Deno.test("configuration", async (t) => {
+  const initialize = async (config: PythonConfig, venv?: string) => {
+    const { code, stdout } = await new Deno.Command(Deno.execPath(), {
+      args: [
+        "run",
+        "-A",
+        "--unstable-ffi",
+        new URL("./config.ts", import.meta.url).href,
+        JSON.stringify(config),
+      ],
+      env: venv === undefined ? {} : { VIRTUAL_ENV: venv },
+      stderr: "inherit",
+    }).output();
+    assertEquals(code, 0);
+    return JSON.parse(new TextDecoder().decode(stdout));
+  };
+
+  await t.step("options", async () => {
+    const settings = await initialize({
+      argv: ["script.py", "--flag"],
+      pythonPath: ["/configuration_test"],
+      isolated: true,
+      noSite: true,
+      optimizationLevel: 2,
+      utf8Mode: true,
+      xOptions: { dev: true },
+    });
+    assertEquals(settings.argv, ["script.py", "--flag"]);
+    assertEquals(settings.path[0], "/configuration_test");
+    assertEquals(settings.isolated, 1);
+    assertEquals(settings.noSite, 1);
+    assertEquals(settings.optimize, 2);
+    assertEquals(settings.utf8Mode, 1);
+    assertEquals(settings.devMode, true);
+  });
+
+  await t.step("python path", async () => {
+    // Found when site runs, on startup
+    const dir = await Deno.makeTempDir();
+    await Deno.writeTextFile(
+      `${dir}/sitecustomize.py`,
+      "import sys\nsys.configuration_test = True\n",
+    );
+    try {
+      const settings = await initialize({ pythonPath: [dir] });
+      assertEquals(settings.path[0], dir);
+      assert(settings.customized);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  await t.step("home", async () => {
+    // Same standard library, found from another prefix
+    const home = await Deno.makeTempDir();
+    const prefix = python.import("sys").base_prefix.valueOf();
+    const dirs = Deno.build.os === "windows" ? ["Lib", "DLLs"] : ["lib"];
+    for (const dir of dirs) {
+      await Deno.symlink(`${prefix}/${dir}`, `${home}/${dir}`);
+    }
+    try {
+      assertEquals((await initialize({ home })).prefix, home);
+    } finally {
+      await Deno.remove(home, { recursive: true });
+    }
+  });
+
+  await t.step("virtual environment", async () => {
+    const venv = await Deno.makeTempDir();
+    const home = python.import("os").path.dirname(
+      python.import("sys").executable,
+    );
+    await Deno.writeTextFile(`${venv}/pyvenv.cfg`, `home = ${home}\n`);
+    try {
+      assertEquals((await initialize({ venv })).prefix, venv);
+      // The active one, by default
+      assertEquals((await initialize({}, venv)).prefix, venv);
+    } finally {
+      await Deno.remove(venv, { recursive: true });
+    }
+  });
+});
+
+Deno.test("awaitables", async (t) => {
+  const { answer, fail, double, wait, sleep_then, Answer } = python.runModule(
+    `
+import asyncio
+
+async def answer():
+  await asyncio.sleep(0.01)
+  return 42
+
+async def fail():
+  raise ValueError("nope")
+
+async def double(get):
+  return 2 * await get()
+
+async def wait(awaitable):
+  if callable(awaitable):
+    awaitable = awaitable()
+  try:
+    return await awaitable
+  except Exception as e:
+    return "caught " + type(e).__name__
+
+def sleep_then(value):
+  future = asyncio.get_running_loop().create_future()
+  asyncio.get_running_loop().call_later(0.01, future.set_result, value)
+  return future
+
+class Answer:
+  def __await__(self):
+    return answer().__await__()
+  `,
+    "awaitables_test.py",
+  );
+
+  await t.step("await coroutine", async () => {
+    assertEquals((await answer().toPromise()).valueOf(), 42);
+    assertEquals((await answer()[ProxiedPyObject].asPromise()).valueOf(), 42);
+  });
+
+  await t.step("not thenable", async () => {
+    const awaitable = Answer();
+    assertEquals(awaitable.then, undefined);
+    assertEquals((await awaitable.toPromise()).valueOf(), 42);
+  });
+
+  await t.step("coroutine error", async () => {
+    await assertRejects(() => fail().toPromise());
+  });
+
+  await t.step("await JS promise", async () => {
+    assertEquals(
+      (await double(() => new Promise((r) => setTimeout(() => r(21), 10)))
+        .toPromise()).valueOf(),
+      42,
+    );
+    assertEquals(
+      (await wait(Promise.resolve("ok")).toPromise()).valueOf(),
+      "ok",
+    );
+    assertEquals(
+      (await wait(Promise.reject(new Error("oops"))).toPromise()).valueOf(),
+      "caught JSError",
+    );
+  });
+
+  await t.step("await future", async () => {
+    assertEquals((await wait(() => sleep_then(4)).toPromise()).valueOf(), 4);
+    assertEquals((await wait(1).toPromise()).valueOf(), "caught TypeError");
+  });
+
+  await t.step("concurrently", async () => {
+    const results = await Promise.all(
+      [answer(), answer(), answer()].map((answer) => answer.toPromise()),
+    );
+    assertEquals(results.map((result) => result.valueOf()), [42, 42, 42]);
+  });
+
+  await t.step("background tasks", async () => {
+    // They don't keep the process alive
+    const { code, stdout } = await new Deno.Command(Deno.execPath(), {
+      args: [
+        "run",
+        "-A",
+        "--unstable-ffi",
+        new URL("./background.ts", import.meta.url).href,
+      ],
+      stderr: "inherit",
+    }).output();
+    assertEquals(code, 0);
+    assertEquals(new TextDecoder().decode(stdout).trim(), "started");
+  });
+});
+
 Deno.test("callback", () => {
   const { call } = python.runModule(
     `
@@ -323,6 +1820,216 @@ Deno.test("exceptions", async (t) => {
     const array = np.zeros([2, 3, 4]);
     assertThrows(() => array.shape = [3, 6]);
   });
+
+  const mod = python.runModule(
+    `
+class CustomError(KeyError, ValueError):
+    pass
+
+def custom():
+    raise CustomError("custom")
+
+def raised_from():
+    try:
+        {}["missing"]
+    except KeyError as error:
+        raise ValueError("from") from error
+
+def while_handling():
+    try:
+        1 / 0
+    except ZeroDivisionError:
+        raise RuntimeError("while handling")
+
+def suppressed():
+    try:
+        1 / 0
+    except ZeroDivisionError:
+        raise RuntimeError("suppressed") from None
+
+def group():
+    error = ExceptionGroup("group", [ValueError(1), KeyError(2)])
+    error.add_note("a note")
+    raise error
+
+def fail():
+    raise ValueError("failed")
+
+def call(callback):
+    return callback()
+`,
+    "exceptions_test",
+  );
+  await t.step("built-in exception classes", () => {
+    const error = assertThrows(() => python.dict().__getitem__("missing"));
+    assert(error instanceof PythonError);
+    assert(error instanceof PythonError.KeyError);
+    assert(error instanceof PythonError.LookupError);
+    assert(error instanceof PythonError.Exception);
+    assert(!(error instanceof PythonError.ValueError));
+    assertEquals(error.args, ["missing"]);
+    assert(!(new Error() instanceof PythonError));
+  });
+
+  await t.step("user-defined exception classes", () => {
+    const error = assertThrows(() => mod.custom());
+    const CustomError = PythonError.forType(mod.CustomError);
+    assertEquals(error.constructor, CustomError);
+    assertEquals(CustomError.name, "CustomError");
+    assert(error instanceof CustomError);
+    assert(error instanceof PythonError.KeyError);
+    // Not its first base, but a base all the same
+    assert(error instanceof PythonError.ValueError);
+    assert(!(assertThrows(() => mod.group()) instanceof CustomError));
+    assertThrows(() => PythonError.forType(python.int));
+  });
+
+  await t.step("cause", () => {
+    const error = assertThrows(() => mod.raised_from());
+    assert(error instanceof PythonError.ValueError);
+    assert(error.cause instanceof PythonError.KeyError);
+    assertEquals(error.cause.args, ["missing"]);
+
+    const context = assertThrows(() => mod.while_handling()).cause;
+    assert(context instanceof PythonError.ZeroDivisionError);
+    assertEquals(assertThrows(() => mod.suppressed()).cause, undefined);
+  });
+
+  await t.step("exception groups", () => {
+    const { minor } = python.import("sys").version_info;
+    if (minor.valueOf() < 11) {
+      return;
+    }
+    const error = assertThrows(() => mod.group());
+    assert(error instanceof PythonError);
+    assert(error instanceof PythonError.ExceptionGroup!);
+    assert(error instanceof AggregateError);
+    assertEquals(error.notes, ["a note"]);
+    assertEquals(error.errors.length, 2);
+    assert(error.errors[0] instanceof PythonError.ValueError);
+    assert(error.errors[1] instanceof PythonError.KeyError);
+  });
+
+  await t.step("stack", () => {
+    const error = assertThrows(() => mod.fail());
+    assertEquals(error.message, "ValueError: failed");
+    assertEquals(error.pythonFrames, [
+      { file: "exceptions_test", line: 32, function: "fail", code: undefined },
+    ]);
+    const lines = error.stack.split("\n");
+    assertEquals(lines[0], "PythonError: ValueError: failed");
+    assertEquals(lines[1], "    at fail (exceptions_test:32)");
+    assert(lines[2].includes("test.ts"));
+  });
+
+  await t.step("stack through a callback", () => {
+    using callback = python.callback(() => mod.fail());
+    const error = assertThrows(() => mod.call(callback));
+    assert(error instanceof PythonError.ValueError);
+    assertEquals(
+      error.pythonFrames.map((frame: PythonFrame) => frame.function),
+      ["fail", "call"],
+    );
+    // Python frames, the callback, Python frames, then the code calling them
+    const lines: string[] = error.stack.split("\n").slice(1);
+    const fail = lines.indexOf("    at fail (exceptions_test:32)");
+    const call = lines.indexOf("    at call (exceptions_test:35)");
+    const callbackLine = lines.findIndex((line) => line.includes("test.ts"));
+    assertEquals(fail, 0);
+    assert(fail < callbackLine && callbackLine < call);
+    assert(lines[call + 1].includes("test.ts"));
+    // The exception itself is left as it was
+    const attrs = python.builtins.vars(error.value);
+    assertEquals(python.builtins.len(attrs).valueOf(), 0);
+  });
+});
+
+Deno.test("failing C API calls", async (t) => {
+  const mod = python.runModule(
+    `
+class Failing:
+    def __str__(self):
+        raise ValueError("str")
+
+    def __index__(self):
+        raise ValueError("index")
+
+    def __float__(self):
+        raise ValueError("float")
+
+    def __iter__(self):
+        raise ValueError("iter")
+
+    def __eq__(self, other):
+        raise ValueError("eq")
+
+class FailingIterator:
+    def __iter__(self):
+        return self
+
+    def __next__(self):
+        raise ValueError("next")
+  `,
+    "failing_test",
+  );
+  const failing = mod.Failing()[ProxiedPyObject] as PyObject;
+  const py = wrapSymbols();
+  // The error is thrown by the failing call, leaving no exception set
+  const assertRaises = (
+    fn: () => unknown,
+    type: PythonErrorClass,
+    message?: string,
+  ) => {
+    const error = assertThrows(fn);
+    assert(error instanceof type);
+    if (message !== undefined) {
+      assertEquals(error.args, [message]);
+    }
+    assertEquals(py.PyErr_Occurred(), null);
+  };
+
+  await t.step("conversions", () => {
+    assertRaises(() => failing.asLong(), PythonError.ValueError, "index");
+    assertRaises(() => failing.asBigInt(), PythonError.ValueError, "index");
+    assertRaises(() => failing.asDouble(), PythonError.ValueError, "float");
+    assertRaises(() => failing.asString(), PythonError.TypeError);
+    assertRaises(() => failing.toString(), PythonError.ValueError, "str");
+    assertRaises(() => PyObject.from("a").asBoolean(), PythonError.TypeError);
+  });
+
+  await t.step("iteration", () => {
+    assertRaises(() => [...failing], PythonError.ValueError, "iter");
+    assertRaises(
+      () => [...mod.FailingIterator()],
+      PythonError.ValueError,
+      "next",
+    );
+  });
+
+  await t.step("comparisons", () => {
+    assertRaises(() => failing.equals(1), PythonError.ValueError, "eq");
+    assertRaises(() => failing.isInstance(1), PythonError.TypeError);
+  });
+
+  await t.step("proxies", () => {
+    const list = python.list([1, 2]);
+    assertRaises(() => list[2] = 3, PythonError.IndexError);
+    assertRaises(() => python.int(1)["0:1"], PythonError.TypeError);
+    assertEquals(list[2], undefined);
+    assertEquals(python.tuple([1, 2])[1].valueOf(), 2);
+    assertEquals(python.tuple([1, 2])[2], undefined);
+  });
+
+  await t.step("imports", () => {
+    assertRaises(
+      () => python.import("missing_module"),
+      PythonError.ModuleNotFoundError,
+    );
+    assertRaises(
+      () => python.runModule("1 / 0"),
+      PythonError.ZeroDivisionError,
+    );
+  });
 });
 
 Deno.test("instance method", () => {
@@ -345,6 +2052,79 @@ class A:
   cb.destroy();
 });
 
+Deno.test("define class", async (t) => {
+  const { Base, use } = python.runModule(
+    `
+class Base:
+  def base_method(self):
+    return "base"
+
+def use(cls):
+  bag = cls("a", "b")
+  bag.add("c")
+  return [len(bag), bag[1], repr(bag), bag.size, bag.base_method(),
+          cls.kind(), cls.create().size, cls.__doc__, isinstance(bag, Base)]
+  `,
+    "class_test.py",
+  );
+
+  const Bag = python.defineClass("Bag", {
+    bases: [Base],
+    doc: "A bag of items",
+    attributes: { label: "bag" },
+    methods: {
+      __init__: (_, self, ...items: string[]) => {
+        self.items = items;
+      },
+      __len__: (_, self) => self.items.valueOf().length,
+      __getitem__: (_, self, index: number) => self.items[index],
+      __repr__: (_, self) => `Bag(${self.items.valueOf().join(", ")})`,
+      add: (_, self, item: string) => {
+        self.items.append(item);
+      },
+    },
+    staticMethods: {
+      kind: () => "static",
+    },
+    classMethods: {
+      create: (_, cls) => cls("x"),
+    },
+    properties: {
+      size: {
+        get: (self) => self.items.valueOf().length,
+        set: (self, value: number) => {
+          self.items = Array(value).fill("?");
+        },
+      },
+    },
+  });
+
+  await t.step("used from Python", () => {
+    assertEquals(use(Bag.type).valueOf(), [
+      3,
+      "b",
+      "Bag(a, b, c)",
+      3,
+      "base",
+      "static",
+      1,
+      "A bag of items",
+      true,
+    ]);
+  });
+
+  await t.step("used from JS", () => {
+    const bag = Bag.type("a");
+    assertEquals(bag.label.valueOf(), "bag");
+    bag.size = 2;
+    assertEquals(bag.items.valueOf(), ["?", "?"]);
+    assertEquals(Bag.type.__name__.valueOf(), "Bag");
+    assertEquals(Bag.type.__module__.valueOf(), "__main__");
+  });
+
+  Bag.destroy();
+});
+
 Deno.test("callbacks have signature", async (t) => {
   const inspect = python.import("inspect");
 
@@ -361,26 +2141,85 @@ Deno.test("callbacks have signature", async (t) => {
   });
 });
 
-Deno.test("js exception inside python callback returns python exception", () => {
-  const pyCallback = python.callback(() => {
-    throw new Error("This is an intentional error from JS!");
-  });
-
-  const pyModule = python.runModule(
+Deno.test("js exceptions inside python callbacks", async (t) => {
+  const mod = python.runModule(
     `
-def call_the_callback(cb):
-  result = cb()
-  return result
+def call(callback):
+    return callback()
+
+def caught(callback):
+    try:
+        callback()
+    except Exception as error:
+        return [type(error).__name__, str(error), error.error,
+                isinstance(error, RuntimeError), isinstance(error, TypeError),
+                isinstance(error, ValueError), isinstance(error, KeyError)]
+
+def reraised(callback):
+    try:
+        callback()
+    except Exception as error:
+        raise ValueError("invalid") from error
   `,
-    "test_module",
+    "js_exceptions_test",
   );
+  const raising = (error: unknown) =>
+    python.callback(() => {
+      throw error;
+    });
+  await t.step("thrown back as is", () => {
+    class ValidationError extends Error {}
+    const error = new ValidationError("invalid");
+    using callback = raising(error);
+    const result = assertThrows(() => mod.call(callback));
+    assert(result === error);
+    assert(result instanceof ValidationError);
+    assertEquals(
+      assertThrows(() => python.scope(() => mod.call(callback))),
+      error,
+    );
+  });
 
-  try {
-    pyModule.call_the_callback(pyCallback);
-  } catch (e) {
-    // deno-lint-ignore no-explicit-any
-    assertEquals((e as any).name, "PythonError");
-  } finally {
-    pyCallback.destroy();
-  }
+  await t.step("python exception types", () => {
+    const errors = [
+      new Error("plain"),
+      new TypeError("wrong type"),
+      new RangeError("out of range"),
+      new PythonKeyError("missing"),
+    ];
+    const results = errors.map((error) => {
+      using callback = raising(error);
+      return mod.caught(callback).valueOf();
+    });
+    assertEquals(results, [
+      ["JSError", "Error: plain", errors[0], true, false, false, false],
+      [
+        "JSTypeError",
+        "TypeError: wrong type",
+        errors[1],
+        true,
+        true,
+        false,
+        false,
+      ],
+      [
+        "JSRangeError",
+        "RangeError: out of range",
+        errors[2],
+        true,
+        false,
+        true,
+        false,
+      ],
+      ["JSKeyError", "'missing'", errors[3], true, false, false, true],
+    ]);
+  });
+
+  await t.step("cause", () => {
+    const error = new Error("original");
+    using callback = raising(error);
+    const result = assertThrows(() => mod.reraised(callback));
+    assert(result instanceof PythonError.ValueError);
+    assert((result as PythonError).cause === error);
+  });
 });
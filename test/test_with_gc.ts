@@ -1,5 +1,5 @@
-import python, { Callback } from "../mod.ts";
-import { assertEquals } from "./asserts.ts";
+import python, { Callback, ProxiedPyObject } from "../mod.ts";
+import { assert, assertEquals, assertRejects } from "./asserts.ts";
 
 Deno.test(
   "js fns are automaticlly converted to callbacks",
@@ -118,6 +118,36 @@ def call_stored_callback():
   },
 );
 
+Deno.test("js iterators are closed once python is done with them", async () => {
+  const { take } = python.runModule(
+    `
+import itertools
+
+def take(iterable, n):
+  return list(itertools.islice(iterable, n))
+  `,
+    "test_gc_iterator_module",
+  );
+
+  let closed = false;
+  function* values() {
+    try {
+      yield 1;
+      yield 2;
+    } finally {
+      closed = true;
+    }
+  }
+  assertEquals(take(values(), 1).valueOf(), [1]);
+
+  for (let i = 0; i < 10 && !closed; i++) {
+    // @ts-ignore:requires: --v8-flags=--expose-gc
+    gc();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assertEquals(closed, true);
+});
+
 // Disabled for now, maybe in this feature someone can figure this out
 // https://github.com/denosaurs/deno_python/pull/87
 // Deno.test("auto-created callbacks are cleaned up after gc", () => {
@@ -136,3 +166,56 @@ def call_stored_callback():
 //     gc();
 //   }
 // });
+
+Deno.test("reference tracking", async (t) => {
+  await t.step("live objects", () => {
+    python.debug.trackReferences = true;
+    const list = python.list([1, 2, 3]);
+    python.debug.trackReferences = false;
+
+    const live = python.debug.liveObjects().filter(
+      ({ object }) => object === list[ProxiedPyObject],
+    );
+    assertEquals(live.map(({ type }) => type), ["list"]);
+    assert(live[0].stack.includes("test_with_gc.ts"));
+
+    list[Symbol.dispose]();
+    assert(
+      !python.debug.liveObjects().some(({ object }) =>
+        object === list[ProxiedPyObject]
+      ),
+    );
+  });
+
+  await t.step("live callbacks", () => {
+    const before = python.debug.liveCallbacks;
+    const callback = python.callback(() => 1);
+    assertEquals(python.debug.liveCallbacks, before + 1);
+    callback.destroy();
+    assertEquals(python.debug.liveCallbacks, before);
+  });
+
+  await t.step("no leaks", async () => {
+    await python.debug.assertNoLeaks(() => {
+      using list = python.list([1, 2, 3]);
+      list.append(4);
+      // Only released once garbage collected
+      python.dict({ a: 1 }).keys();
+      using callback = python.callback(() => 1);
+      python.builtins.map(callback, list);
+    });
+  });
+
+  await t.step("leaks", async () => {
+    const kept: unknown[] = [];
+    const error = await assertRejects(() =>
+      python.debug.assertNoLeaks(() => {
+        kept.push(python.list([1, 2, 3]), python.callback(() => 1));
+      })
+    );
+    assert(error.message.startsWith("2 reference(s) leaked"));
+    assert(error.message.includes("PyObject of type list"));
+    assert(error.message.includes("test_with_gc.ts"));
+    (kept[1] as Callback).destroy();
+  });
+});
@@ -0,0 +1,27 @@
+/// <reference lib="deno.worker" />
+// Worker used by the "threads" and "shutdown" tests, sharing the interpreter
+// with the main thread
+import { python } from "../mod.ts";
+
+self.onmessage = (event: MessageEvent<string>) => {
+  try {
+    const { apply } = python.runModule(
+      `
+import __main__
+
+def apply(f, value):
+  # Outlives the worker, see the "threads" test
+  __main__.worker_function = f
+  return f(value)
+  `,
+      "worker_test.py",
+    );
+    const main = python.import("__main__");
+    self.postMessage([
+      main[event.data].valueOf(),
+      apply((_: unknown, value: number) => value * 2, 21).valueOf(),
+    ]);
+  } catch (error) {
+    self.postMessage((error as Error).message);
+  }
+};